@@ -1,3 +1,15 @@
+import { OrderSource } from "./engine/types";
+
 export const ORDERS_RETENTION_SECONDS = 604800; // 7 days in seconds
 export const BUSY_TIMES_RETENTION_SECONDS = 86400; // 1 day in seconds
 export const TIME_FRAME_SECONDS_OFFSET = 1; // 1 second
+export const SLOT_SUGGESTION_MINUTES = 5;
+export const SLOT_SUGGESTION_HORIZON_MINUTES = 1440; // 1 day in minutes
+export const DEFAULT_RULE_SOURCES = [OrderSource.PERDIEM];
+export const RULE_DATE_FORMAT = "yyyy-MM-dd";
+export const THRESHOLD_NEARING_RATIO = 0.8;
+export const EVENTS_STREAM_MAX_LENGTH = 10000;
+export const EVENTS_STREAM_RETENTION_SECONDS = 86400; // 1 day in seconds
+export const FORECAST_SLOT_MINUTES = 15;
+export const FORECAST_SMOOTHING = 0.3;
+export const FORECAST_REFRESH_MINUTES = 60;
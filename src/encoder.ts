@@ -1,6 +1,6 @@
 import { Packr } from "msgpackr";
-import type { BusyTime, Order } from "./engine/types";
-import { OrderSource } from "./engine/types";
+import type { BusyTime, ManualBusyTime, Order, RuleBusyTime } from "./engine/types";
+import { BusyTimeKind, OrderSource } from "./engine/types";
 
 const packr = new Packr({
 	useRecords: true,
@@ -9,9 +9,36 @@ const packr = new Packr({
 
 enum OrderSourceMap {
 	PERDIEM = "P",
+	KIOSK = "K",
+	POS = "POS",
+	PHONE = "PH",
+	DOORDASH = "DD",
+	UBER_EATS = "UE",
+	GRUBHUB = "GH",
 	OTHER = "O",
 }
 
+const orderSourceCodes: Record<OrderSource, OrderSourceMap> = {
+	[OrderSource.PERDIEM]: OrderSourceMap.PERDIEM,
+	[OrderSource.KIOSK]: OrderSourceMap.KIOSK,
+	[OrderSource.POS]: OrderSourceMap.POS,
+	[OrderSource.PHONE]: OrderSourceMap.PHONE,
+	[OrderSource.DOORDASH]: OrderSourceMap.DOORDASH,
+	[OrderSource.UBER_EATS]: OrderSourceMap.UBER_EATS,
+	[OrderSource.GRUBHUB]: OrderSourceMap.GRUBHUB,
+	[OrderSource.OTHER]: OrderSourceMap.OTHER,
+};
+
+function encodeOrderSource(source: OrderSource): OrderSourceMap {
+	return orderSourceCodes[source] ?? OrderSourceMap.OTHER;
+}
+
+function decodeOrderSource(code: unknown): OrderSource {
+	const source = (Object.keys(orderSourceCodes) as OrderSource[]).find((key) => orderSourceCodes[key] === code);
+
+	return source ?? OrderSource.OTHER;
+}
+
 enum OrderItemKeyMap {
 	itemId = "id",
 	quantity = "q",
@@ -25,6 +52,7 @@ enum OrderKeyMap {
 	totalAmountCents = "ta",
 	source = "s",
 	orderTime = "ot",
+	placedAt = "pa",
 	orderTimeSeconds = "ots",
 	currentTimeSeconds = "cts",
 }
@@ -34,25 +62,39 @@ enum ThresholdKeyMap {
 	value = "v",
 	limit = "l",
 	categoryIds = "c",
+	tier = "tr",
 }
 
 enum BusyTimeContextKeyMap {
 	totalAmountCents = "ta",
 	totalItems = "ti",
 	totalOrders = "to",
+	totalLoad = "tl",
 	categoryIds = "c",
+	expectedOrders = "eo",
+}
+
+enum BusyTimeKindMap {
+	RULE = "R",
+	MANUAL = "M",
 }
 
 enum BusyTimeKeyMap {
 	busyTimeId = "id",
+	kind = "k",
 	ruleId = "r",
+	ruleVersion = "rv",
+	orderId = "oid",
 	startTime = "st",
 	endTime = "et",
 	orderTimeSeconds = "ots",
 	currentTimeSeconds = "cts",
 	busyTimeSeconds = "bts",
+	resource = "res",
 	busyTimeContext = "btc",
 	threshold = "t",
+	reason = "rs",
+	createdBy = "cb",
 }
 
 export function encodeOrder(order: Order): Buffer {
@@ -67,8 +109,9 @@ export function encodeOrder(order: Order): Buffer {
 		[OrderKeyMap.orderId]: order.orderId,
 		[OrderKeyMap.items]: encodedItems,
 		[OrderKeyMap.totalAmountCents]: order.totalAmountCents ?? 0,
-		[OrderKeyMap.source]: order.source === OrderSource.PERDIEM ? OrderSourceMap.PERDIEM : OrderSourceMap.OTHER,
+		[OrderKeyMap.source]: encodeOrderSource(order.source),
 		[OrderKeyMap.orderTime]: order.orderTime,
+		[OrderKeyMap.placedAt]: order.placedAt,
 		[OrderKeyMap.orderTimeSeconds]: order.orderTimeSeconds ?? 0,
 		[OrderKeyMap.currentTimeSeconds]: order.currentTimeSeconds ?? 0,
 	});
@@ -88,33 +131,55 @@ export function decodeOrder(buffer: Buffer): Order {
 		orderId: data[OrderKeyMap.orderId],
 		items: decodedItems,
 		totalAmountCents: data[OrderKeyMap.totalAmountCents],
-		source: data[OrderKeyMap.source] === OrderSourceMap.PERDIEM ? OrderSource.PERDIEM : OrderSource.OTHER,
+		source: decodeOrderSource(data[OrderKeyMap.source]),
 		orderTime: data[OrderKeyMap.orderTime],
+		placedAt: data[OrderKeyMap.placedAt] ?? data[OrderKeyMap.orderTime],
 		orderTimeSeconds: data[OrderKeyMap.orderTimeSeconds],
 		currentTimeSeconds: data[OrderKeyMap.currentTimeSeconds],
 	} as Order;
 }
 
 export function encodeBusyTime(busyTime: BusyTime): Buffer {
+	if (busyTime.kind === BusyTimeKind.MANUAL) {
+		return packr.pack({
+			[BusyTimeKeyMap.busyTimeId]: busyTime.busyTimeId,
+			[BusyTimeKeyMap.kind]: BusyTimeKindMap.MANUAL,
+			[BusyTimeKeyMap.startTime]: busyTime.startTime,
+			[BusyTimeKeyMap.endTime]: busyTime.endTime,
+			[BusyTimeKeyMap.currentTimeSeconds]: busyTime.currentTimeSeconds,
+			[BusyTimeKeyMap.busyTimeSeconds]: busyTime.busyTimeSeconds,
+			[BusyTimeKeyMap.resource]: busyTime.resource ?? null,
+			[BusyTimeKeyMap.reason]: busyTime.reason,
+			[BusyTimeKeyMap.createdBy]: busyTime.createdBy,
+		});
+	}
+
 	return packr.pack({
 		[BusyTimeKeyMap.busyTimeId]: busyTime.busyTimeId,
+		[BusyTimeKeyMap.kind]: BusyTimeKindMap.RULE,
 		[BusyTimeKeyMap.ruleId]: busyTime.ruleId,
+		[BusyTimeKeyMap.ruleVersion]: busyTime.ruleVersion,
+		[BusyTimeKeyMap.orderId]: busyTime.orderId,
 		[BusyTimeKeyMap.startTime]: busyTime.startTime,
 		[BusyTimeKeyMap.endTime]: busyTime.endTime,
 		[BusyTimeKeyMap.orderTimeSeconds]: busyTime.orderTimeSeconds,
 		[BusyTimeKeyMap.currentTimeSeconds]: busyTime.currentTimeSeconds,
 		[BusyTimeKeyMap.busyTimeSeconds]: busyTime.busyTimeSeconds,
+		[BusyTimeKeyMap.resource]: busyTime.resource ?? null,
 		[BusyTimeKeyMap.busyTimeContext]: {
 			[BusyTimeContextKeyMap.totalAmountCents]: busyTime.busyTimeContext.totalAmountCents ?? 0,
 			[BusyTimeContextKeyMap.totalItems]: busyTime.busyTimeContext.totalItems ?? 0,
 			[BusyTimeContextKeyMap.totalOrders]: busyTime.busyTimeContext.totalOrders ?? 0,
+			[BusyTimeContextKeyMap.totalLoad]: busyTime.busyTimeContext.totalLoad ?? 0,
 			[BusyTimeContextKeyMap.categoryIds]: busyTime.busyTimeContext.categoryIds ?? [],
+			[BusyTimeContextKeyMap.expectedOrders]: busyTime.busyTimeContext.expectedOrders ?? 0,
 		},
 		[BusyTimeKeyMap.threshold]: {
 			[ThresholdKeyMap.type]: busyTime.threshold.type,
 			[ThresholdKeyMap.value]: busyTime.threshold.value ?? 0,
 			[ThresholdKeyMap.limit]: busyTime.threshold.limit ?? 0,
 			[ThresholdKeyMap.categoryIds]: busyTime.threshold.categoryIds ?? [],
+			[ThresholdKeyMap.tier]: busyTime.threshold.tier ?? 0,
 		},
 	});
 }
@@ -122,28 +187,49 @@ export function encodeBusyTime(busyTime: BusyTime): Buffer {
 export function decodeBusyTime(buffer: Buffer): BusyTime {
 	const data = packr.unpack(buffer) as Record<string, unknown>;
 
+	if (data[BusyTimeKeyMap.kind] === BusyTimeKindMap.MANUAL) {
+		return {
+			busyTimeId: data[BusyTimeKeyMap.busyTimeId],
+			kind: BusyTimeKind.MANUAL,
+			startTime: data[BusyTimeKeyMap.startTime],
+			endTime: data[BusyTimeKeyMap.endTime],
+			currentTimeSeconds: data[BusyTimeKeyMap.currentTimeSeconds],
+			busyTimeSeconds: data[BusyTimeKeyMap.busyTimeSeconds],
+			resource: data[BusyTimeKeyMap.resource] ?? null,
+			reason: data[BusyTimeKeyMap.reason],
+			createdBy: data[BusyTimeKeyMap.createdBy],
+		} as ManualBusyTime;
+	}
+
 	const busyTimeContext = data[BusyTimeKeyMap.busyTimeContext] as Record<string, unknown>;
 	const threshold = data[BusyTimeKeyMap.threshold] as Record<string, unknown>;
 
 	return {
 		busyTimeId: data[BusyTimeKeyMap.busyTimeId],
+		kind: BusyTimeKind.RULE,
 		ruleId: data[BusyTimeKeyMap.ruleId],
+		ruleVersion: data[BusyTimeKeyMap.ruleVersion] ?? 0,
+		orderId: data[BusyTimeKeyMap.orderId],
 		startTime: data[BusyTimeKeyMap.startTime],
 		endTime: data[BusyTimeKeyMap.endTime],
 		orderTimeSeconds: data[BusyTimeKeyMap.orderTimeSeconds],
 		currentTimeSeconds: data[BusyTimeKeyMap.currentTimeSeconds],
 		busyTimeSeconds: data[BusyTimeKeyMap.busyTimeSeconds],
+		resource: data[BusyTimeKeyMap.resource] ?? null,
 		busyTimeContext: {
 			totalAmountCents: busyTimeContext[BusyTimeContextKeyMap.totalAmountCents],
 			totalItems: busyTimeContext[BusyTimeContextKeyMap.totalItems],
 			totalOrders: busyTimeContext[BusyTimeContextKeyMap.totalOrders],
+			totalLoad: busyTimeContext[BusyTimeContextKeyMap.totalLoad] ?? 0,
 			categoryIds: busyTimeContext[BusyTimeContextKeyMap.categoryIds],
+			expectedOrders: busyTimeContext[BusyTimeContextKeyMap.expectedOrders] ?? 0,
 		},
 		threshold: {
 			type: threshold[ThresholdKeyMap.type],
 			value: threshold[ThresholdKeyMap.value],
 			limit: threshold[ThresholdKeyMap.limit],
 			categoryIds: threshold[ThresholdKeyMap.categoryIds],
+			tier: threshold[ThresholdKeyMap.tier] ?? 0,
 		},
-	} as BusyTime;
+	} as RuleBusyTime;
 }
@@ -0,0 +1,114 @@
+import { addDays, format, getDay, getHours, getMinutes, startOfDay } from "date-fns";
+import { toZonedTime } from "date-fns-tz";
+import { RULE_DATE_FORMAT } from "../constants";
+import { minutesToSeconds, secondsToDate } from "../utils";
+import type { DemandProfile, ForecastSlot, Order } from "./types";
+
+const MINUTES_PER_DAY = 1440;
+
+export default class DemandForecast {
+	private slotMinutes: number;
+	private smoothing: number;
+	private timeZone: string;
+	private profile: DemandProfile = {};
+	private ruleProfiles: Record<string, DemandProfile> = {};
+
+	constructor({ slotMinutes, smoothing, timeZone }: { slotMinutes: number; smoothing: number; timeZone: string }) {
+		this.slotMinutes = slotMinutes;
+		this.smoothing = smoothing;
+		this.timeZone = timeZone;
+	}
+
+	private getSlotIndex(zonedDate: Date): number {
+		return Math.floor((getHours(zonedDate) * 60 + getMinutes(zonedDate)) / this.slotMinutes);
+	}
+
+	// Builds an exponentially weighted average of the orders per weekday and time slot, one sample per complete day
+	private buildProfile(orders: Order[], untilSeconds: number, countOrder: (order: Order) => number): DemandProfile {
+		const slotsPerDay = MINUTES_PER_DAY / this.slotMinutes;
+		const countsByDate = new Map<string, number[]>();
+		let firstDay: Date | null = null;
+
+		for (const order of orders) {
+			const zonedDate = toZonedTime(order.orderTime, this.timeZone);
+			const date = format(zonedDate, RULE_DATE_FORMAT);
+			const counts = countsByDate.get(date) ?? new Array<number>(slotsPerDay).fill(0);
+
+			counts[this.getSlotIndex(zonedDate)] += countOrder(order);
+			countsByDate.set(date, counts);
+
+			if (!firstDay || zonedDate < firstDay) {
+				firstDay = startOfDay(zonedDate);
+			}
+		}
+
+		const profile: DemandProfile = {};
+		const today = startOfDay(toZonedTime(secondsToDate(untilSeconds), this.timeZone));
+
+		for (let day = firstDay; day && day < today; day = addDays(day, 1)) {
+			const weekDay = getDay(day);
+			const counts = countsByDate.get(format(day, RULE_DATE_FORMAT)) ?? new Array<number>(slotsPerDay).fill(0);
+			const previous = profile[weekDay];
+
+			profile[weekDay] = previous
+				? counts.map((count, index) => this.smoothing * count + (1 - this.smoothing) * previous[index])
+				: counts;
+		}
+
+		return profile;
+	}
+
+	// Rules only expect the orders they count, so each way of counting orders gets its own profile
+	public build(orders: Order[], untilSeconds: number, ruleOrderCounts: Record<string, (order: Order) => number>): void {
+		this.profile = this.buildProfile(orders, untilSeconds, () => 1);
+		this.ruleProfiles = Object.fromEntries(
+			Object.entries(ruleOrderCounts).map(([countKey, countOrder]) => [
+				countKey,
+				this.buildProfile(orders, untilSeconds, countOrder),
+			]),
+		);
+	}
+
+	public getProfile(): DemandProfile {
+		return this.profile;
+	}
+
+	public getRuleProfiles(): Record<string, DemandProfile> {
+		return this.ruleProfiles;
+	}
+
+	public setProfiles(profile: DemandProfile, ruleProfiles: Record<string, DemandProfile>): void {
+		this.profile = profile;
+		this.ruleProfiles = ruleProfiles;
+	}
+
+	public hasRuleProfiles(countKeys: string[]): boolean {
+		return countKeys.every((countKey) => countKey in this.ruleProfiles);
+	}
+
+	public getOptions(): { slotMinutes: number; smoothing: number; timeZone: string } {
+		return { slotMinutes: this.slotMinutes, smoothing: this.smoothing, timeZone: this.timeZone };
+	}
+
+	public getSlots(fromSeconds: number, toTimeSeconds: number, countKey?: string): ForecastSlot[] {
+		const profile = countKey === undefined ? this.profile : (this.ruleProfiles[countKey] ?? {});
+		const slotSeconds = minutesToSeconds(this.slotMinutes);
+		const slots: ForecastSlot[] = [];
+
+		for (let slotStartSeconds = fromSeconds; slotStartSeconds < toTimeSeconds; slotStartSeconds += slotSeconds) {
+			const zonedDate = toZonedTime(secondsToDate(slotStartSeconds), this.timeZone);
+
+			slots.push({
+				startTime: secondsToDate(slotStartSeconds),
+				endTime: secondsToDate(Math.min(slotStartSeconds + slotSeconds, toTimeSeconds)),
+				expectedOrders: profile[getDay(zonedDate)]?.[this.getSlotIndex(zonedDate)] ?? 0,
+			});
+		}
+
+		return slots;
+	}
+
+	public getExpectedOrders(fromSeconds: number, toTimeSeconds: number, countKey?: string): number {
+		return this.getSlots(fromSeconds, toTimeSeconds, countKey).reduce((sum, slot) => sum + slot.expectedOrders, 0);
+	}
+}
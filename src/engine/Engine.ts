@@ -1,50 +1,180 @@
 import { randomUUID } from "node:crypto";
 import { minutesToSeconds } from "date-fns";
 import type Redis from "ioredis";
-import { BUSY_TIMES_RETENTION_SECONDS, ORDERS_RETENTION_SECONDS, TIME_FRAME_SECONDS_OFFSET } from "../constants";
-import { decodeBusyTime, decodeOrder, encodeBusyTime, encodeOrder } from "./../encoder";
+import {
+	BUSY_TIMES_RETENTION_SECONDS,
+	FORECAST_REFRESH_MINUTES,
+	FORECAST_SLOT_MINUTES,
+	FORECAST_SMOOTHING,
+	ORDERS_RETENTION_SECONDS,
+	SLOT_SUGGESTION_HORIZON_MINUTES,
+	SLOT_SUGGESTION_MINUTES,
+	THRESHOLD_NEARING_RATIO,
+	TIME_FRAME_SECONDS_OFFSET,
+} from "../constants";
+import type { EventPublisher } from "../events";
 import { type Logger, noopLogger } from "../logger";
 import type { Rule } from "../rules/types";
+import { type PacingStore, RedisStore, type Retention } from "../store";
 import { secondsToDate, toSeconds } from "../utils";
+import DemandForecast from "./DemandForecast";
+import type EngineRule from "./EngineRule";
 import EngineRules from "./EngineRules";
-import { type BusyTime, type InputOrder, type Order, OrderSource, TimeframeMode, type TimeWindow } from "./types";
+import {
+	type BusyTime,
+	type BusyTimeEndedEvent,
+	BusyTimeKind,
+	type BusyTimeStartedEvent,
+	BusyTimeStrategy,
+	type DemandProfile,
+	type EngineEvent,
+	EngineEventType,
+	type EngineHooks,
+	type ForecastOptions,
+	type ForecastSlot,
+	type InputOrder,
+	type LoadModel,
+	type ManualBusyTime,
+	type ManualBusyTimeInput,
+	type Order,
+	type OrderCheck,
+	type OrderItem,
+	type OrderSource,
+	type OrderTimeValidation,
+	type Resources,
+	type RuleBusyTime,
+	type RuleCapacity,
+	type ThresholdNearingEvent,
+	TimeframeMode,
+	type TimeSlot,
+	type TimeWindow,
+} from "./types";
+
+type BusyTimesMerge = {
+	created: RuleBusyTime[];
+	removed: RuleBusyTime[];
+};
 
 type EngineParams = {
 	bucket: string;
-	redis: Redis;
+	redis?: Redis;
+	store?: PacingStore;
 	logger?: Logger;
 	timeframeMode?: TimeframeMode;
+	busyTimeStrategy?: BusyTimeStrategy;
 	timeZone?: string;
 	rules?: Rule[];
+	loadModel?: LoadModel;
+	resources?: Resources;
+	syncRules?: boolean;
+	hooks?: EngineHooks;
+	publisher?: EventPublisher;
+	thresholdNearingRatio?: number;
+	forecast?: ForecastOptions;
+	ordersRetentionSeconds?: number;
+	busyTimesRetentionSeconds?: number;
 };
 
 export class Engine {
 	private engineRules: EngineRules;
+	private loadModel: LoadModel;
+	private resources: Resources;
+	private syncRules: boolean;
+	private storedRulesVersion: number | null = null;
+	private hooks: EngineHooks;
+	private publisher: EventPublisher | null;
+	private thresholdNearingRatio: number;
+	private demandForecast: DemandForecast | null = null;
+	private forecastRefreshSeconds = 0;
+	private forecastBuiltAtSeconds: number | null = null;
+	private lastTickSeconds = toSeconds(Date.now());
 
-	private redis: Redis;
+	private store: PacingStore;
+	private bucket: string;
 	private logger: Logger;
 	private timeframeMode: TimeframeMode;
+	private busyTimeStrategy: BusyTimeStrategy;
 	private timeZone: string;
-
-	private ordersKey: string;
-	private busyTimesKey: string;
+	private ordersRetentionSeconds: number;
+	private busyTimesRetentionSeconds: number;
 
 	constructor({
 		bucket,
 		redis,
+		store,
 		logger = noopLogger,
 		timeframeMode = TimeframeMode.BEFORE_ONLY,
+		busyTimeStrategy = BusyTimeStrategy.ALL,
 		timeZone = "UTC",
 		rules = [],
+		loadModel = {},
+		resources = {},
+		syncRules = false,
+		hooks = {},
+		publisher,
+		thresholdNearingRatio = THRESHOLD_NEARING_RATIO,
+		forecast,
+		ordersRetentionSeconds = ORDERS_RETENTION_SECONDS,
+		busyTimesRetentionSeconds = BUSY_TIMES_RETENTION_SECONDS,
 	}: EngineParams) {
-		this.redis = redis;
+		if (!store && !redis) {
+			throw new Error("Either store or redis must be provided");
+		}
+
+		if (!Object.values(BusyTimeStrategy).includes(busyTimeStrategy)) {
+			throw new Error(`busyTimeStrategy must be one of: ${Object.values(BusyTimeStrategy).join(", ")}`);
+		}
+
+		if (typeof thresholdNearingRatio !== "number" || thresholdNearingRatio <= 0 || thresholdNearingRatio >= 1) {
+			throw new Error("thresholdNearingRatio must be a number between 0 and 1");
+		}
+
+		if (!Number.isInteger(ordersRetentionSeconds) || ordersRetentionSeconds <= 0) {
+			throw new Error("ordersRetentionSeconds must be a positive integer (in seconds)");
+		}
+
+		if (!Number.isInteger(busyTimesRetentionSeconds) || busyTimesRetentionSeconds <= 0) {
+			throw new Error("busyTimesRetentionSeconds must be a positive integer (in seconds)");
+		}
+
+		this.store = store ?? new RedisStore(redis as Redis);
+		this.bucket = bucket;
 		this.logger = logger;
 		this.timeframeMode = timeframeMode;
+		this.busyTimeStrategy = busyTimeStrategy;
 		this.timeZone = timeZone;
-		this.engineRules = new EngineRules(rules);
+		this.ordersRetentionSeconds = ordersRetentionSeconds;
+		this.busyTimesRetentionSeconds = busyTimesRetentionSeconds;
+		this.loadModel = loadModel;
+		this.resources = resources;
+		this.syncRules = syncRules;
+		this.hooks = hooks;
+		this.publisher = publisher ?? null;
+		this.thresholdNearingRatio = thresholdNearingRatio;
+
+		if (forecast) {
+			const {
+				slotMinutes = FORECAST_SLOT_MINUTES,
+				smoothing = FORECAST_SMOOTHING,
+				refreshMinutes = FORECAST_REFRESH_MINUTES,
+			} = forecast;
+
+			if (!Number.isInteger(slotMinutes) || slotMinutes <= 0 || 1440 % slotMinutes !== 0) {
+				throw new Error("forecast.slotMinutes must be a positive integer that divides a day (in minutes)");
+			}
+
+			if (typeof smoothing !== "number" || smoothing <= 0 || smoothing > 1) {
+				throw new Error("forecast.smoothing must be a number greater than 0 and at most 1");
+			}
 
-		this.ordersKey = `orders:${bucket}`;
-		this.busyTimesKey = `busytimes:${bucket}`;
+			if (typeof refreshMinutes !== "number" || refreshMinutes <= 0) {
+				throw new Error("forecast.refreshMinutes must be a positive number greater than 0 (in minutes)");
+			}
+
+			this.demandForecast = new DemandForecast({ slotMinutes, smoothing, timeZone });
+			this.forecastRefreshSeconds = minutesToSeconds(refreshMinutes);
+		}
+		this.engineRules = new EngineRules(rules, loadModel, resources);
 	}
 
 	private static calculateTimeWindow({
@@ -81,126 +211,753 @@ export class Engine {
 		}
 	}
 
-	private async getOrdersInWindow(timeWindow: TimeWindow): Promise<Order[]> {
-		const entries = await this.redis.zrangebyscoreBuffer(
-			this.ordersKey,
-			timeWindow.start,
-			timeWindow.end,
-			"WITHSCORES",
+	private getRuleTimeWindow(engineRule: EngineRule, orderTimeSeconds: number): TimeWindow {
+		const timeFrameSeconds = minutesToSeconds(engineRule.rule.timeFrameMinutes) - TIME_FRAME_SECONDS_OFFSET;
+
+		return Engine.calculateTimeWindow({
+			orderTimeSeconds,
+			timeFrameSeconds,
+			timeframeMode: this.timeframeMode,
+		});
+	}
+
+	private static mergeTimeWindows(timeWindows: TimeWindow[]): TimeWindow | null {
+		if (timeWindows.length === 0) {
+			return null;
+		}
+
+		return {
+			start: Math.min(...timeWindows.map((timeWindow) => timeWindow.start)),
+			end: Math.max(...timeWindows.map((timeWindow) => timeWindow.end)),
+		};
+	}
+
+	private static filterOrdersInWindow(orders: Order[], timeWindow: TimeWindow): Order[] {
+		return orders.filter(
+			(order) => order.orderTimeSeconds >= timeWindow.start && order.orderTimeSeconds <= timeWindow.end,
 		);
+	}
+
+	private static toOrder(
+		{ orderTime, placedAt, fulfillAt, ...inputOrder }: InputOrder,
+		currentTimeSeconds: number,
+	): Order {
+		const fulfillAtDate = fulfillAt ?? orderTime ?? placedAt ?? secondsToDate(currentTimeSeconds);
+		const placedAtDate = placedAt ?? secondsToDate(Math.min(currentTimeSeconds, toSeconds(fulfillAtDate)));
+
+		if (toSeconds(fulfillAtDate) < toSeconds(placedAtDate)) {
+			throw new Error(`fulfillAt must not be before placedAt for order ${inputOrder.orderId}`);
+		}
+
+		return {
+			...inputOrder,
+			orderTime: fulfillAtDate,
+			placedAt: placedAtDate,
+			orderTimeSeconds: toSeconds(fulfillAtDate),
+			currentTimeSeconds,
+		};
+	}
 
-		const orders: Order[] = [];
+	private static findBusyTimeAt(busyTimes: BusyTime[], timeSeconds: number): BusyTime | undefined {
+		return busyTimes.find(
+			(busyTime) => timeSeconds >= toSeconds(busyTime.startTime) && timeSeconds <= toSeconds(busyTime.endTime),
+		);
+	}
 
-		for (let i = 0; i < entries.length; i += 2) {
-			const value = entries[i] as Buffer;
-			const order = decodeOrder(value);
+	private isAtCapacity(time: Date, orders: Order[]): boolean {
+		const timeSeconds = toSeconds(time);
 
-			if (order.source === OrderSource.PERDIEM) {
-				orders.push(order);
+		return this.engineRules.getEngineRules().some((engineRule) => {
+			if (!engineRule.applyCheck(time, this.timeZone)) {
+				return false;
 			}
-		}
 
-		return orders;
+			const timeWindow = this.getRuleTimeWindow(engineRule, timeSeconds);
+
+			return engineRule.thresholdCheck(orders, timeWindow, this.getExpectedOrders(engineRule, timeSeconds)) !== null;
+		});
 	}
 
-	private async cleanOldOrders(currentTimeSeconds: number): Promise<void> {
-		const retentionTimeSeconds = currentTimeSeconds - ORDERS_RETENTION_SECONDS;
+	private async getOrdersInWindow(timeWindow: TimeWindow): Promise<Order[]> {
+		return this.store.getOrders(this.bucket, timeWindow);
+	}
+
+	private async getOrdersInWindows(timeWindows: TimeWindow[]): Promise<Order[]> {
+		const timeWindow = Engine.mergeTimeWindows(timeWindows);
+
+		return timeWindow ? this.getOrdersInWindow(timeWindow) : [];
+	}
+
+	private async getOrdersInLoadWindows(engineRules: EngineRule[], timeWindows: TimeWindow[]): Promise<Order[]> {
+		return this.getOrdersInWindows(
+			engineRules.map((engineRule, index) => engineRule.getLoadTimeWindow(timeWindows[index])),
+		);
+	}
 
-		await this.redis.zremrangebyscore(this.ordersKey, 0, retentionTimeSeconds);
+	private async cleanOldOrders(currentTimeSeconds: number): Promise<void> {
+		await this.store.cleanOldOrders(this.bucket, currentTimeSeconds - this.ordersRetentionSeconds);
 	}
 
 	private async cleanOldBusyTimes(currentTimeSeconds: number): Promise<void> {
-		await this.redis.zremrangebyscore(this.busyTimesKey, 0, currentTimeSeconds - BUSY_TIMES_RETENTION_SECONDS);
+		await this.store.cleanOldBusyTimes(this.bucket, currentTimeSeconds - this.busyTimesRetentionSeconds);
+	}
+
+	private getRetention(currentTimeSeconds: number): Retention {
+		return {
+			currentTimeSeconds,
+			ordersRetentionSeconds: this.ordersRetentionSeconds,
+			busyTimesRetentionSeconds: this.busyTimesRetentionSeconds,
+		};
 	}
 
-	private async addOrder(order: Order): Promise<void> {
-		const buffer = encodeOrder(order);
+	// Returns the busy times of the order that are kept because their rule is still exceeded without it
+	private async retractBusyTimes(orderId: string): Promise<RuleBusyTime[]> {
+		const busyTimes = await this.store.getBusyTimes(this.bucket);
+		const retractedBusyTimes: BusyTime[] = [];
+		const keptBusyTimes: RuleBusyTime[] = [];
+
+		for (const busyTime of busyTimes) {
+			if (busyTime.kind !== BusyTimeKind.RULE || busyTime.orderId !== orderId) {
+				continue;
+			}
+
+			const engineRule = this.engineRules.getEngineRule(busyTime.ruleId);
+
+			if (engineRule) {
+				const timeWindow = this.getRuleTimeWindow(engineRule, busyTime.orderTimeSeconds);
+				// An updated order is already stored again, so it must not keep its own previous busy times
+				const orders = (await this.getOrdersInWindow(engineRule.getLoadTimeWindow(timeWindow))).filter(
+					(order) => order.orderId !== orderId,
+				);
+
+				if (
+					engineRule.thresholdCheck(orders, timeWindow, this.getExpectedOrders(engineRule, busyTime.orderTimeSeconds))
+				) {
+					this.logger.debug(`Rule ${busyTime.ruleId} is still exceeded without order ${orderId}, keeping busy time`);
+					keptBusyTimes.push(busyTime);
 
-		await this.redis.zadd(this.ordersKey, order.orderTimeSeconds, buffer);
+					continue;
+				}
+			}
+
+			retractedBusyTimes.push(busyTime);
+		}
+
+		if (retractedBusyTimes.length === 0) {
+			return keptBusyTimes;
+		}
+
+		await this.store.removeBusyTimes(
+			this.bucket,
+			retractedBusyTimes.map((busyTime) => busyTime.busyTimeId),
+		);
+
+		for (const busyTime of retractedBusyTimes) {
+			await this.emit({ type: EngineEventType.BUSY_TIME_REMOVED, bucket: this.bucket, busyTime });
+		}
+
+		return keptBusyTimes;
 	}
 
-	private async addBusyTime(busyTime: BusyTime): Promise<void> {
-		const buffer = encodeBusyTime(busyTime);
+	private async emit(event: EngineEvent): Promise<void> {
+		try {
+			switch (event.type) {
+				case EngineEventType.ORDER_ADDED:
+					await this.hooks.onOrderAdded?.(event);
+					break;
+				case EngineEventType.BUSY_TIME_CREATED:
+					await this.hooks.onBusyTimeCreated?.(event);
+					break;
+				case EngineEventType.BUSY_TIME_REMOVED:
+					await this.hooks.onBusyTimeRemoved?.(event);
+					break;
+				case EngineEventType.BUSY_TIME_STARTED:
+					await this.hooks.onBusyTimeStarted?.(event);
+					break;
+				case EngineEventType.BUSY_TIME_ENDED:
+					await this.hooks.onBusyTimeEnded?.(event);
+					break;
+				case EngineEventType.THRESHOLD_NEARING:
+					await this.hooks.onThresholdNearing?.(event);
+					break;
+			}
+		} catch (error) {
+			this.logger.error(`Hook for ${event.type} event failed`, error);
+		}
 
-		await this.redis.zadd(this.busyTimesKey, busyTime.orderTimeSeconds, buffer);
+		try {
+			await this.publisher?.publish(this.bucket, event);
+		} catch (error) {
+			this.logger.error(`Failed to publish ${event.type} event`, error);
+		}
 	}
 
-	public async add(inputOrder: InputOrder): Promise<void> {
-		const orderTimeSeconds = toSeconds(inputOrder.orderTime);
+	private findNearingThresholds(
+		order: Order,
+		engineRules: EngineRule[],
+		storedOrders: Order[],
+		busyTimes: RuleBusyTime[],
+	): ThresholdNearingEvent[] {
+		const events: ThresholdNearingEvent[] = [];
+
+		for (const engineRule of engineRules) {
+			if (busyTimes.some((busyTime) => busyTime.ruleId === engineRule.rule.ruleId)) {
+				continue;
+			}
+
+			const timeWindow = this.getRuleTimeWindow(engineRule, order.orderTimeSeconds);
+			const threshold = engineRule.nearingCheck(storedOrders, order, timeWindow, this.thresholdNearingRatio);
+
+			if (threshold) {
+				events.push({
+					type: EngineEventType.THRESHOLD_NEARING,
+					bucket: this.bucket,
+					ruleId: engineRule.rule.ruleId,
+					orderId: order.orderId,
+					threshold,
+				});
+			}
+		}
+
+		return events;
+	}
+
+	private getExpectedOrders(engineRule: EngineRule, timeSeconds: number): number {
+		if (!this.demandForecast || !engineRule.rule.forecastMinutes) {
+			return 0;
+		}
+
+		return this.demandForecast.getExpectedOrders(
+			timeSeconds,
+			timeSeconds + minutesToSeconds(engineRule.rule.forecastMinutes),
+			engineRule.getOrderCountKey(),
+		);
+	}
+
+	private async refresh(): Promise<void> {
+		await this.refreshRules();
+
 		const currentTimeSeconds = toSeconds(Date.now());
 
-		await this.cleanOldOrders(currentTimeSeconds);
-		await this.cleanOldBusyTimes(currentTimeSeconds);
+		if (
+			this.demandForecast &&
+			(this.forecastBuiltAtSeconds === null ||
+				currentTimeSeconds - this.forecastBuiltAtSeconds >= this.forecastRefreshSeconds ||
+				!this.demandForecast.hasRuleProfiles(Object.keys(this.getForecastOrderCounts())))
+		) {
+			await this.loadForecast(this.demandForecast, currentTimeSeconds);
+		}
+	}
 
-		const order: Order = Object.assign(inputOrder, {
-			currentTimeSeconds,
-			orderTimeSeconds,
-		});
+	// Reuses a fresh profile built by another engine on the bucket, so short-lived engines do not decode every order
+	private async loadForecast(demandForecast: DemandForecast, currentTimeSeconds: number): Promise<void> {
+		const stored = await this.store.getDemandProfile(this.bucket);
+		const { slotMinutes, smoothing, timeZone } = demandForecast.getOptions();
+
+		if (
+			stored &&
+			stored.slotMinutes === slotMinutes &&
+			stored.smoothing === smoothing &&
+			stored.timeZone === timeZone &&
+			currentTimeSeconds - stored.builtAtSeconds < this.forecastRefreshSeconds &&
+			Object.keys(this.getForecastOrderCounts()).every((countKey) => countKey in stored.ruleProfiles)
+		) {
+			demandForecast.setProfiles(stored.profile, stored.ruleProfiles);
+			this.forecastBuiltAtSeconds = stored.builtAtSeconds;
 
-		await this.addOrder(order);
+			return;
+		}
+
+		await this.refreshForecast();
+	}
+
+	private getForecastOrderCounts(): Record<string, (order: Order) => number> {
+		return Object.fromEntries(
+			this.engineRules
+				.getEngineRules()
+				.filter((engineRule) => engineRule.rule.forecastMinutes)
+				.map((engineRule) => [engineRule.getOrderCountKey(), (order: Order) => engineRule.getOrderCount(order)]),
+		);
+	}
 
-		if (!this.engineRules || !this.engineRules.hasRules() || order.source !== OrderSource.PERDIEM) {
-			this.logger.debug("No busy time rules not set or not a Perdiem order, skipping to add busy time");
+	private getCartResources(items: OrderItem[]): string[] {
+		return Object.keys(this.resources).filter((resource) =>
+			items.some((item) => item.categoryId && this.resources[resource].includes(item.categoryId)),
+		);
+	}
 
+	private async refreshRules(): Promise<void> {
+		if (!this.syncRules) {
 			return;
 		}
 
-		for (const engineRule of this.engineRules.getEngineRules()) {
-			if (!engineRule.applyCheck(order.orderTime, this.timeZone)) {
-				continue;
-			}
+		const version = await this.store.getRulesVersion(this.bucket);
 
-			const timeFrameSeconds = minutesToSeconds(engineRule.rule.timeFrameMinutes) - TIME_FRAME_SECONDS_OFFSET;
+		if (version === null || version === this.storedRulesVersion) {
+			return;
+		}
 
-			const timeWindow = Engine.calculateTimeWindow({
-				orderTimeSeconds,
-				timeFrameSeconds,
-				timeframeMode: this.timeframeMode,
-			});
+		const storedRules = await this.store.getRules(this.bucket);
+
+		if (!storedRules) {
+			return;
+		}
+
+		this.storedRulesVersion = storedRules.version;
 
-			const ordersInWindow = await this.getOrdersInWindow(timeWindow);
+		try {
+			this.applyRules(storedRules.rules, storedRules.version);
+		} catch (error) {
+			this.logger.error(`Invalid rules version ${storedRules.version} in store, keeping current rules`, error);
+		}
+	}
+
+	private getApplicableEngineRules(order: Order): EngineRule[] {
+		if (!this.engineRules || !this.engineRules.hasRules()) {
+			this.logger.debug("No busy time rules set, skipping to add busy time");
 
-			const thresholdInfo = engineRule.thresholdCheck(ordersInWindow);
+			return [];
+		}
+
+		return this.engineRules
+			.getEngineRules()
+			.filter(
+				(engineRule) =>
+					engineRule.throttlesSource(order.source) && engineRule.applyCheck(order.orderTime, this.timeZone),
+			);
+	}
+
+	private evaluateRules(order: Order, engineRules: EngineRule[], storedOrders: Order[]): RuleBusyTime[] {
+		const busyTimes: RuleBusyTime[] = [];
+
+		for (const engineRule of engineRules) {
+			const timeWindow = this.getRuleTimeWindow(engineRule, order.orderTimeSeconds);
+
+			const thresholdInfo = engineRule.thresholdCheck(
+				[...storedOrders, order],
+				timeWindow,
+				this.getExpectedOrders(engineRule, order.orderTimeSeconds),
+			);
 
 			if (!thresholdInfo) {
 				continue;
 			}
 
-			const busyTimeSeconds = minutesToSeconds(engineRule.rule.busyTimeMinutes);
-			const endTimeSeconds = Math.max(orderTimeSeconds, currentTimeSeconds + busyTimeSeconds);
-			const startTimeSeconds = endTimeSeconds - busyTimeSeconds;
+			// Scheduled orders are throttled from their fulfilment time, ASAP orders from now
+			const busyTimeSeconds = minutesToSeconds(thresholdInfo.busyTimeMinutes);
+			const startTimeSeconds = Math.max(order.orderTimeSeconds, order.currentTimeSeconds);
+			const endTimeSeconds = startTimeSeconds + busyTimeSeconds;
 
-			await this.addBusyTime({
+			busyTimes.push({
 				busyTimeId: randomUUID(),
+				kind: BusyTimeKind.RULE,
 				ruleId: engineRule.rule.ruleId,
+				ruleVersion: this.engineRules.version,
+				orderId: order.orderId,
 				startTime: secondsToDate(startTimeSeconds),
 				endTime: secondsToDate(endTimeSeconds),
-				orderTimeSeconds,
-				currentTimeSeconds,
+				orderTimeSeconds: order.orderTimeSeconds,
+				currentTimeSeconds: order.currentTimeSeconds,
 				busyTimeSeconds,
+				resource: engineRule.rule.resource ?? null,
 				threshold: thresholdInfo.threshold,
 				busyTimeContext: thresholdInfo.busyTimeContext,
 			});
+
+			if (this.busyTimeStrategy === BusyTimeStrategy.FIRST_MATCH) {
+				break;
+			}
 		}
+
+		return this.resolveBusyTimes(busyTimes);
 	}
 
-	public async getOrders(): Promise<Order[]> {
+	private async commitBusyTimes(busyTimes: RuleBusyTime[], retention: Retention): Promise<BusyTimesMerge> {
+		if (this.busyTimeStrategy === BusyTimeStrategy.ALL || busyTimes.length === 0) {
+			await this.store.addBusyTimes(this.bucket, busyTimes, retention);
+
+			return { created: busyTimes, removed: [] };
+		}
+
+		// The merge depends on the stored busy times, so it is redone when another add changed them in between
+		for (;;) {
+			const snapshot = await this.store.getBusyTimesSnapshot(this.bucket);
+			const merge = this.mergeBusyTimes(busyTimes, snapshot.busyTimes);
+
+			if (merge.created.length === 0 && merge.removed.length === 0) {
+				return merge;
+			}
+
+			const committed = await this.store.commitBusyTimes(
+				this.bucket,
+				snapshot.revision,
+				merge.removed.map((busyTime) => busyTime.busyTimeId),
+				merge.created,
+				retention,
+			);
+
+			if (committed) {
+				return merge;
+			}
+
+			this.logger.debug("Busy times changed while committing, merging again");
+		}
+	}
+
+	private static isOverlapping(busyTime: RuleBusyTime, otherBusyTime: RuleBusyTime): boolean {
+		return (
+			busyTime.resource === otherBusyTime.resource &&
+			busyTime.startTime.getTime() < otherBusyTime.endTime.getTime() &&
+			otherBusyTime.startTime.getTime() < busyTime.endTime.getTime()
+		);
+	}
+
+	// Resolves the new busy times against the stored ones of earlier orders, the same way as within a single order
+	private mergeBusyTimes(busyTimes: RuleBusyTime[], storedBusyTimes: BusyTime[]): BusyTimesMerge {
+		const ruleBusyTimes = storedBusyTimes
+			.filter((busyTime): busyTime is RuleBusyTime => busyTime.kind === BusyTimeKind.RULE)
+			.sort((a, b) => a.startTime.getTime() - b.startTime.getTime());
+
+		switch (this.busyTimeStrategy) {
+			case BusyTimeStrategy.MAX:
+				return Engine.extendBusyTimes(busyTimes, ruleBusyTimes);
+			case BusyTimeStrategy.SUM:
+				return { created: Engine.appendBusyTimes(busyTimes, ruleBusyTimes), removed: [] };
+			default:
+				return {
+					created: busyTimes.filter(
+						(busyTime) => !ruleBusyTimes.some((ruleBusyTime) => Engine.isOverlapping(ruleBusyTime, busyTime)),
+					),
+					removed: [],
+				};
+		}
+	}
+
+	// A stored busy time covering the new one wins, otherwise the new one replaces the overlapping ones by their union
+	private static extendBusyTimes(busyTimes: RuleBusyTime[], storedBusyTimes: RuleBusyTime[]): BusyTimesMerge {
+		const merge: BusyTimesMerge = { created: [], removed: [] };
+
+		for (const busyTime of busyTimes) {
+			const overlapping = storedBusyTimes.filter((storedBusyTime) => Engine.isOverlapping(storedBusyTime, busyTime));
+
+			if (
+				overlapping.some(
+					(storedBusyTime) =>
+						storedBusyTime.startTime.getTime() <= busyTime.startTime.getTime() &&
+						storedBusyTime.endTime.getTime() >= busyTime.endTime.getTime(),
+				)
+			) {
+				continue;
+			}
+
+			const startTimeSeconds = Math.min(...[busyTime, ...overlapping].map(({ startTime }) => toSeconds(startTime)));
+			const endTimeSeconds = Math.max(...[busyTime, ...overlapping].map(({ endTime }) => toSeconds(endTime)));
+
+			merge.created.push({
+				...busyTime,
+				startTime: secondsToDate(startTimeSeconds),
+				endTime: secondsToDate(endTimeSeconds),
+				busyTimeSeconds: endTimeSeconds - startTimeSeconds,
+			});
+			merge.removed.push(...overlapping);
+		}
+
+		return merge;
+	}
+
+	// Each new busy time starts after the stored busy times that are running at its start
+	private static appendBusyTimes(busyTimes: RuleBusyTime[], storedBusyTimes: RuleBusyTime[]): RuleBusyTime[] {
+		let endTimeSeconds = 0;
+
+		return busyTimes.map((busyTime) => {
+			let startTimeSeconds = Math.max(toSeconds(busyTime.startTime), endTimeSeconds);
+
+			for (const storedBusyTime of storedBusyTimes) {
+				if (
+					storedBusyTime.resource === busyTime.resource &&
+					toSeconds(storedBusyTime.startTime) <= startTimeSeconds &&
+					toSeconds(storedBusyTime.endTime) > startTimeSeconds
+				) {
+					startTimeSeconds = toSeconds(storedBusyTime.endTime);
+				}
+			}
+
+			endTimeSeconds = startTimeSeconds + busyTime.busyTimeSeconds;
+
+			return {
+				...busyTime,
+				startTime: secondsToDate(startTimeSeconds),
+				endTime: secondsToDate(endTimeSeconds),
+			};
+		});
+	}
+
+	private resolveBusyTimes(busyTimes: RuleBusyTime[]): RuleBusyTime[] {
+		if (busyTimes.length <= 1) {
+			return busyTimes;
+		}
+
+		switch (this.busyTimeStrategy) {
+			case BusyTimeStrategy.MAX: {
+				const longestBusyTime = busyTimes.reduce((longest, busyTime) =>
+					busyTime.busyTimeSeconds > longest.busyTimeSeconds ? busyTime : longest,
+				);
+
+				return [longestBusyTime];
+			}
+			case BusyTimeStrategy.SUM: {
+				const [firstBusyTime, ...stackedBusyTimes] = busyTimes;
+				let endTimeSeconds = toSeconds(firstBusyTime.endTime);
+
+				return [
+					firstBusyTime,
+					...stackedBusyTimes.map((busyTime) => {
+						const startTimeSeconds = endTimeSeconds;
+
+						endTimeSeconds = startTimeSeconds + busyTime.busyTimeSeconds;
+
+						return {
+							...busyTime,
+							startTime: secondsToDate(startTimeSeconds),
+							endTime: secondsToDate(endTimeSeconds),
+						};
+					}),
+				];
+			}
+			default:
+				return busyTimes;
+		}
+	}
+
+	public getRulesVersion(): number {
+		return this.engineRules.version;
+	}
+
+	private applyRules(rules: Rule[], version: number): void {
+		this.engineRules = new EngineRules(rules, this.loadModel, this.resources, version);
+	}
+
+	// Local versions would collide with the published ones, so synced engines only take published rules
+	public setRules(rules: Rule[], version = this.engineRules.version + 1): void {
+		if (this.syncRules) {
+			throw new Error("setRules is not available with syncRules, use publishRules instead");
+		}
+
+		this.applyRules(rules, version);
+	}
+
+	public async publishRules(rules: Rule[]): Promise<number> {
+		if (!Array.isArray(rules)) {
+			throw new Error("rules must be an array");
+		}
+
+		EngineRules.validateRules(rules, this.resources);
+
+		const version = await this.store.saveRules(this.bucket, rules);
+
+		this.storedRulesVersion = version;
+		this.applyRules(rules, version);
+
+		return version;
+	}
+
+	private getOrderTimeWindow(order: Order, engineRules: EngineRule[]): TimeWindow | null {
+		return Engine.mergeTimeWindows(
+			engineRules.map((engineRule) =>
+				engineRule.getLoadTimeWindow(this.getRuleTimeWindow(engineRule, order.orderTimeSeconds)),
+			),
+		);
+	}
+
+	private async applyOrder(
+		order: Order,
+		engineRules: EngineRule[],
+		storedOrders: Order[],
+		keptBusyTimes: RuleBusyTime[] = [],
+	): Promise<void> {
+		const busyTimes = this.evaluateRules(order, engineRules, storedOrders);
+		// A rule that kept the order's busy time through an update is not throttled a second time
+		const { created, removed } = await this.commitBusyTimes(
+			busyTimes.filter((busyTime) => !keptBusyTimes.some((keptBusyTime) => keptBusyTime.ruleId === busyTime.ruleId)),
+			this.getRetention(order.currentTimeSeconds),
+		);
+
+		await this.emit({ type: EngineEventType.ORDER_ADDED, bucket: this.bucket, order });
+
+		for (const busyTime of removed) {
+			await this.emit({ type: EngineEventType.BUSY_TIME_REMOVED, bucket: this.bucket, busyTime });
+		}
+
+		for (const busyTime of created) {
+			await this.emit({ type: EngineEventType.BUSY_TIME_CREATED, bucket: this.bucket, busyTime });
+		}
+
+		for (const event of this.findNearingThresholds(order, engineRules, storedOrders, busyTimes)) {
+			await this.emit(event);
+		}
+	}
+
+	public async add(inputOrder: InputOrder): Promise<void> {
+		await this.refresh();
+
+		const order = Engine.toOrder(inputOrder, toSeconds(Date.now()));
+		const engineRules = this.getApplicableEngineRules(order);
+
+		// The store returns the orders added before this one, so rules see the same orders as with sequential adds
+		const storedOrders = await this.store.addOrder(
+			this.bucket,
+			order,
+			this.getOrderTimeWindow(order, engineRules),
+			this.getRetention(order.currentTimeSeconds),
+		);
+
+		if (!storedOrders) {
+			this.logger.debug(`Order ${order.orderId} already added, skipping`);
+
+			return;
+		}
+
+		await this.applyOrder(order, engineRules, storedOrders);
+	}
+
+	public async checkOrder(inputOrder: InputOrder): Promise<OrderCheck> {
+		await this.refresh();
+
+		const order = Engine.toOrder(inputOrder, toSeconds(Date.now()));
+
+		const engineRules = this.getApplicableEngineRules(order);
+		const timeWindows = engineRules.map((engineRule) => this.getRuleTimeWindow(engineRule, order.orderTimeSeconds));
+
+		const storedOrders = (await this.getOrdersInLoadWindows(engineRules, timeWindows)).filter(
+			(storedOrder) => storedOrder.orderId !== order.orderId,
+		);
+
+		const orders = [...storedOrders, order];
+
+		const rules = engineRules.map((engineRule, index) => {
+			const threshold =
+				engineRule.thresholdCheck(
+					orders,
+					timeWindows[index],
+					this.getExpectedOrders(engineRule, order.orderTimeSeconds),
+				)?.threshold ?? null;
+
+			return {
+				ruleId: engineRule.rule.ruleId,
+				timeWindow: timeWindows[index],
+				totals: engineRule.calculateTotals(orders, timeWindows[index]),
+				threshold,
+				exceededBy: threshold ? threshold.value - threshold.limit : 0,
+			};
+		});
+
+		return {
+			exceeded: rules.some((rule) => rule.threshold !== null),
+			rules,
+		};
+	}
+
+	public async removeOrder(orderId: string): Promise<boolean> {
+		await this.refresh();
+
 		const currentTimeSeconds = toSeconds(Date.now());
 
 		await this.cleanOldOrders(currentTimeSeconds);
+		await this.cleanOldBusyTimes(currentTimeSeconds);
+
+		const removed = await this.store.removeOrder(this.bucket, orderId);
+
+		if (!removed) {
+			this.logger.debug(`Order ${orderId} not found, skipping removal`);
+
+			return false;
+		}
 
-		const entries = await this.redis.zrangeBuffer(this.ordersKey, 0, -1, "WITHSCORES");
+		await this.retractBusyTimes(orderId);
 
-		const orders: Order[] = [];
+		return true;
+	}
+
+	public async updateOrder(inputOrder: InputOrder): Promise<void> {
+		await this.refresh();
+
+		const order = Engine.toOrder(inputOrder, toSeconds(Date.now()));
+		const engineRules = this.getApplicableEngineRules(order);
 
-		for (let i = 0; i < entries.length; i += 2) {
-			const value = entries[i] as Buffer;
-			const order = decodeOrder(value);
+		const { replaced, orders: storedOrders } = await this.store.replaceOrder(
+			this.bucket,
+			order,
+			this.getOrderTimeWindow(order, engineRules),
+			this.getRetention(order.currentTimeSeconds),
+		);
+
+		const keptBusyTimes = replaced ? await this.retractBusyTimes(order.orderId) : [];
 
-			orders.push(order);
+		await this.applyOrder(order, engineRules, storedOrders, keptBusyTimes);
+	}
+
+	public async addManualBusyTime({
+		startTime = new Date(),
+		endTime,
+		reason,
+		createdBy,
+		resource,
+	}: ManualBusyTimeInput): Promise<ManualBusyTime> {
+		const currentTimeSeconds = toSeconds(Date.now());
+		const startTimeSeconds = toSeconds(startTime);
+		const endTimeSeconds = toSeconds(endTime);
+
+		if (endTimeSeconds <= startTimeSeconds) {
+			throw new Error("endTime must be after startTime");
+		}
+
+		if (resource !== undefined && !(resource in this.resources)) {
+			throw new Error(`Unknown resource ${resource}`);
 		}
 
-		return orders;
+		const busyTime: ManualBusyTime = {
+			busyTimeId: randomUUID(),
+			kind: BusyTimeKind.MANUAL,
+			startTime: secondsToDate(startTimeSeconds),
+			endTime: secondsToDate(endTimeSeconds),
+			currentTimeSeconds,
+			busyTimeSeconds: endTimeSeconds - startTimeSeconds,
+			resource: resource ?? null,
+			reason,
+			createdBy,
+		};
+
+		await this.store.addBusyTimes(this.bucket, [busyTime], this.getRetention(currentTimeSeconds));
+
+		await this.emit({ type: EngineEventType.BUSY_TIME_CREATED, bucket: this.bucket, busyTime });
+
+		return busyTime;
+	}
+
+	public async removeBusyTime(busyTimeId: string): Promise<boolean> {
+		const busyTime = (await this.store.getBusyTimes(this.bucket)).find(
+			(storedBusyTime) => storedBusyTime.busyTimeId === busyTimeId,
+		);
+
+		if (!busyTime) {
+			return false;
+		}
+
+		const removed = await this.store.removeBusyTimes(this.bucket, [busyTimeId]);
+
+		if (removed > 0) {
+			await this.emit({ type: EngineEventType.BUSY_TIME_REMOVED, bucket: this.bucket, busyTime });
+		}
+
+		return removed > 0;
+	}
+
+	public async getOrders(): Promise<Order[]> {
+		const currentTimeSeconds = toSeconds(Date.now());
+
+		await this.cleanOldOrders(currentTimeSeconds);
+
+		return this.store.getOrders(this.bucket);
 	}
 
 	public async getBusyTimes(): Promise<BusyTime[]> {
@@ -208,18 +965,47 @@ export class Engine {
 
 		await this.cleanOldBusyTimes(currentTimeSeconds);
 
-		const entries = await this.redis.zrangeBuffer(this.busyTimesKey, 0, -1, "WITHSCORES");
+		const busyTimes = await this.store.getBusyTimes(this.bucket);
 
-		const busyTimes: BusyTime[] = [];
+		return busyTimes.sort((a, b) => toSeconds(a.startTime) - toSeconds(b.startTime));
+	}
 
-		for (let i = 0; i < entries.length; i += 2) {
-			const value = entries[i] as Buffer;
-			const busyTime = decodeBusyTime(value);
+	// Emits the starts and ends of busy times reached since the previous tick, in the order they happened
+	public async tick(): Promise<void> {
+		const currentTimeSeconds = toSeconds(Date.now());
+		const lastTickSeconds = this.lastTickSeconds;
 
-			busyTimes.push(busyTime);
+		if (currentTimeSeconds <= lastTickSeconds) {
+			return;
 		}
 
-		return busyTimes.sort((a, b) => toSeconds(a.startTime) - toSeconds(b.startTime));
+		this.lastTickSeconds = currentTimeSeconds;
+
+		const isReached = (timeSeconds: number) => timeSeconds > lastTickSeconds && timeSeconds <= currentTimeSeconds;
+		const events: { timeSeconds: number; event: BusyTimeStartedEvent | BusyTimeEndedEvent }[] = [];
+
+		for (const busyTime of await this.store.getBusyTimes(this.bucket)) {
+			const startTimeSeconds = toSeconds(busyTime.startTime);
+			const endTimeSeconds = toSeconds(busyTime.endTime);
+
+			if (isReached(startTimeSeconds)) {
+				events.push({
+					timeSeconds: startTimeSeconds,
+					event: { type: EngineEventType.BUSY_TIME_STARTED, bucket: this.bucket, busyTime },
+				});
+			}
+
+			if (isReached(endTimeSeconds)) {
+				events.push({
+					timeSeconds: endTimeSeconds,
+					event: { type: EngineEventType.BUSY_TIME_ENDED, bucket: this.bucket, busyTime },
+				});
+			}
+		}
+
+		for (const { event } of events.sort((a, b) => a.timeSeconds - b.timeSeconds)) {
+			await this.emit(event);
+		}
 	}
 
 	public async getOrdersStats(
@@ -232,58 +1018,206 @@ export class Engine {
 
 		await this.cleanOldOrders(currentTimeSeconds);
 
-		const entries = await this.redis.zrangebyscoreBuffer(
-			this.ordersKey,
-			startTimeSeconds,
-			endTimeSeconds,
-			"WITHSCORES",
-		);
-
-		const orders: {
-			orderId: string;
-			orderTime: Date;
-			source: OrderSource;
-		}[] = [];
-
-		for (let i = 0; i < entries.length; i += 2) {
-			const value = entries[i] as Buffer;
-			const order = decodeOrder(value);
+		const orders = await this.store.getOrders(this.bucket, { start: startTimeSeconds, end: endTimeSeconds });
 
-			orders.push({
+		return orders
+			.map((order) => ({
 				orderId: order.orderId,
 				orderTime: order.orderTime,
 				source: order.source,
-			});
-		}
-
-		return orders.sort((a, b) => toSeconds(a.orderTime) - toSeconds(b.orderTime));
+			}))
+			.sort((a, b) => toSeconds(a.orderTime) - toSeconds(b.orderTime));
 	}
 
-	public async validateOrderTime(orderTime: Date): Promise<{ waitPeriodSeconds: number; ordersInWindow: number }> {
+	public async validateOrderTime(orderTime: Date, items?: OrderItem[]): Promise<OrderTimeValidation> {
+		await this.refresh();
+
 		const orderTimeSeconds = toSeconds(orderTime);
-		const busyTimes = await this.getBusyTimes();
+		const resources = items ? this.getCartResources(items) : null;
+		const touchesResource = (resource: string | null | undefined) =>
+			!resources || resource === null || resource === undefined || resources.includes(resource);
 
-		const waitPeriodInfo = {
-			waitPeriodSeconds: 0,
-			ordersInWindow: 0,
-		};
+		const busyTimes = (await this.getBusyTimes()).filter((busyTime) => touchesResource(busyTime.resource));
+
+		let waitPeriodSeconds = 0;
+		const matchedBusyTimes: BusyTime[] = [];
 
 		for (const busyTime of busyTimes) {
 			const startTimeSeconds = toSeconds(busyTime.startTime);
 			const endTimeSeconds = toSeconds(busyTime.endTime);
-			const orderTimeSecondsWithOffset = orderTimeSeconds + waitPeriodInfo.waitPeriodSeconds;
+			const orderTimeSecondsWithOffset = orderTimeSeconds + waitPeriodSeconds;
 
-			if (orderTimeSecondsWithOffset >= startTimeSeconds && orderTimeSecondsWithOffset <= endTimeSeconds) {
-				waitPeriodInfo.waitPeriodSeconds = endTimeSeconds + 1 - orderTimeSeconds;
-				continue;
+			if (startTimeSeconds > orderTimeSecondsWithOffset) {
+				break;
 			}
 
-			break;
+			if (orderTimeSecondsWithOffset <= endTimeSeconds) {
+				waitPeriodSeconds = endTimeSeconds + 1 - orderTimeSeconds;
+				matchedBusyTimes.push(busyTime);
+			}
 		}
 
+		const engineRules = this.engineRules
+			.getEngineRules()
+			.filter(
+				(engineRule) => engineRule.applyCheck(orderTime, this.timeZone) && touchesResource(engineRule.rule.resource),
+			);
+
+		const timeWindows = engineRules.map((engineRule) => this.getRuleTimeWindow(engineRule, orderTimeSeconds));
+
+		const orders = await this.getOrdersInLoadWindows(engineRules, timeWindows);
+
+		const ordersInWindow = new Set<string>();
+
+		const rules = engineRules.map((engineRule, index) => {
+			for (const order of Engine.filterOrdersInWindow(orders, timeWindows[index])) {
+				ordersInWindow.add(order.orderId);
+			}
+
+			return {
+				ruleId: engineRule.rule.ruleId,
+				timeWindow: timeWindows[index],
+				totals: engineRule.calculateTotals(orders, timeWindows[index]),
+				threshold:
+					engineRule.thresholdCheck(orders, timeWindows[index], this.getExpectedOrders(engineRule, orderTimeSeconds))
+						?.threshold ?? null,
+			};
+		});
+
 		return {
-			waitPeriodSeconds: waitPeriodInfo.waitPeriodSeconds,
-			ordersInWindow: waitPeriodInfo.ordersInWindow,
+			waitPeriodSeconds,
+			ordersInWindow: ordersInWindow.size,
+			busyTimes: matchedBusyTimes,
+			rules,
 		};
 	}
+
+	public async getCapacity(time: Date = new Date()): Promise<RuleCapacity[]> {
+		await this.refresh();
+
+		const timeSeconds = toSeconds(time);
+
+		const engineRules = this.engineRules
+			.getEngineRules()
+			.filter((engineRule) => engineRule.applyCheck(time, this.timeZone));
+
+		const timeWindows = engineRules.map((engineRule) => this.getRuleTimeWindow(engineRule, timeSeconds));
+		const orders = await this.getOrdersInLoadWindows(engineRules, timeWindows);
+
+		return engineRules.map((engineRule, index) => {
+			const totals = engineRule.calculateTotals(orders, timeWindows[index]);
+
+			return {
+				ruleId: engineRule.rule.ruleId,
+				timeWindow: timeWindows[index],
+				totals,
+				remaining: engineRule.calculateRemaining(totals),
+			};
+		});
+	}
+
+	public async getAvailableSlots(from: Date, to: Date, slotMinutes: number): Promise<TimeSlot[]> {
+		return this.findAvailableSlots(from, to, slotMinutes, Number.POSITIVE_INFINITY);
+	}
+
+	// Stops at maxSlots, so a suggestion does not check every slot of its horizon
+	private async findAvailableSlots(from: Date, to: Date, slotMinutes: number, maxSlots: number): Promise<TimeSlot[]> {
+		if (typeof slotMinutes !== "number" || slotMinutes <= 0) {
+			throw new Error("slotMinutes must be a positive number greater than 0 (in minutes)");
+		}
+
+		const fromSeconds = toSeconds(from);
+		const toTimeSeconds = toSeconds(to);
+		const slotSeconds = minutesToSeconds(slotMinutes);
+
+		if (toTimeSeconds <= fromSeconds) {
+			throw new Error("to must be after from");
+		}
+
+		await this.refresh();
+
+		const busyTimes = await this.getBusyTimes();
+		const engineRules = this.engineRules.getEngineRules();
+
+		const orders = await this.getOrdersInWindows(
+			engineRules.flatMap((engineRule) => [
+				engineRule.getLoadTimeWindow(this.getRuleTimeWindow(engineRule, fromSeconds)),
+				engineRule.getLoadTimeWindow(this.getRuleTimeWindow(engineRule, toTimeSeconds)),
+			]),
+		);
+
+		const slots: TimeSlot[] = [];
+
+		for (
+			let slotStartSeconds = fromSeconds;
+			slotStartSeconds < toTimeSeconds && slots.length < maxSlots;
+			slotStartSeconds += slotSeconds
+		) {
+			const startTime = secondsToDate(slotStartSeconds);
+
+			if (Engine.findBusyTimeAt(busyTimes, slotStartSeconds) || this.isAtCapacity(startTime, orders)) {
+				continue;
+			}
+
+			slots.push({
+				startTime,
+				endTime: secondsToDate(Math.min(slotStartSeconds + slotSeconds, toTimeSeconds)),
+			});
+		}
+
+		return slots;
+	}
+
+	public async suggestNextAvailableTime(
+		orderTime: Date,
+		{
+			slotMinutes = SLOT_SUGGESTION_MINUTES,
+			horizonMinutes = SLOT_SUGGESTION_HORIZON_MINUTES,
+		}: { slotMinutes?: number; horizonMinutes?: number } = {},
+	): Promise<Date | null> {
+		const slots = await this.findAvailableSlots(
+			orderTime,
+			secondsToDate(toSeconds(orderTime) + minutesToSeconds(horizonMinutes)),
+			slotMinutes,
+			1,
+		);
+
+		return slots.length > 0 ? slots[0].startTime : null;
+	}
+
+	public async refreshForecast(): Promise<DemandProfile> {
+		if (!this.demandForecast) {
+			throw new Error("Forecasting is not enabled, pass forecast options to the Engine");
+		}
+
+		const currentTimeSeconds = toSeconds(Date.now());
+
+		this.demandForecast.build(
+			await this.store.getOrders(this.bucket),
+			currentTimeSeconds,
+			this.getForecastOrderCounts(),
+		);
+		this.forecastBuiltAtSeconds = currentTimeSeconds;
+
+		const profile = this.demandForecast.getProfile();
+
+		await this.store.saveDemandProfile(this.bucket, {
+			profile,
+			ruleProfiles: this.demandForecast.getRuleProfiles(),
+			builtAtSeconds: currentTimeSeconds,
+			...this.demandForecast.getOptions(),
+		});
+
+		return profile;
+	}
+
+	public async getForecast(from: Date, to: Date): Promise<ForecastSlot[]> {
+		if (!this.demandForecast) {
+			throw new Error("Forecasting is not enabled, pass forecast options to the Engine");
+		}
+
+		await this.refresh();
+
+		return this.demandForecast.getSlots(toSeconds(from), toSeconds(to));
+	}
 }
@@ -1,144 +1,421 @@
-import { getDay, getHours, getMinutes } from "date-fns";
+import { format, getDay, getHours, getMinutes, minutesToSeconds, subDays } from "date-fns";
 import { toZonedTime } from "date-fns-tz";
-import type { Rule } from "../rules/types";
-import { timeStringToMinutes } from "../utils";
-import type { BusyTimeContext, Order, Threshold } from "./types";
+import { DEFAULT_RULE_SOURCES, RULE_DATE_FORMAT } from "../constants";
+import type { Rule, RuleLimits, RuleTier, RuleTimeSegment } from "../rules/types";
+import { timeStringToMinutes, toSeconds } from "../utils";
+import {
+	type BusyTimeContext,
+	type LoadModel,
+	type Order,
+	OrderCountMode,
+	type OrderItem,
+	type OrderSource,
+	type Resources,
+	type RuleRemaining,
+	type RuleTotals,
+	type Threshold,
+	type ThresholdInfo,
+	type TimeWindow,
+} from "./types";
+
+type PrepInterval = {
+	start: number;
+	end: number;
+	load: number;
+};
 
 export default class EngineRule {
 	public readonly rule: Rule;
+	private loadModel: LoadModel;
+	private resources: Resources;
 
-	constructor(rule: Rule) {
+	constructor(rule: Rule, loadModel: LoadModel = {}, resources: Resources = {}) {
 		this.rule = rule;
+		this.loadModel = loadModel;
+		this.resources = resources;
 	}
 
-	public applyCheck(time: Date, timeZone: string): boolean {
-		const zonedDate = toZonedTime(time, timeZone);
-		const dayOfWeek = getDay(zonedDate);
+	private getTimeSegments(): RuleTimeSegment[] {
+		return (
+			this.rule.timeSegments ?? [{ startTime: this.rule.startTime ?? "00:00", endTime: this.rule.endTime ?? "23:59" }]
+		);
+	}
+
+	private appliesOnDay(zonedDay: Date): boolean {
+		const dayOfWeek = getDay(zonedDay);
 
 		if (Array.isArray(this.rule.weekDays) && this.rule.weekDays.length > 0 && !this.rule.weekDays.includes(dayOfWeek)) {
 			return false;
 		}
 
+		const date = format(zonedDay, RULE_DATE_FORMAT);
+
+		if (
+			(this.rule.effectiveFrom && date < this.rule.effectiveFrom) ||
+			(this.rule.effectiveTo && date > this.rule.effectiveTo)
+		) {
+			return false;
+		}
+
+		return !this.rule.blackoutDates?.some((dateRange) => date >= dateRange.from && date <= dateRange.to);
+	}
+
+	public applyCheck(time: Date, timeZone: string): boolean {
+		const zonedDate = toZonedTime(time, timeZone);
 		const orderMinutes = getHours(zonedDate) * 60 + getMinutes(zonedDate);
 
-		if (this.rule.startTime) {
-			const startTimeMinutes = timeStringToMinutes(this.rule.startTime);
+		return this.getTimeSegments().some((segment) => {
+			const startTimeMinutes = timeStringToMinutes(segment.startTime);
+			const endTimeMinutes = timeStringToMinutes(segment.endTime);
+
+			if (startTimeMinutes <= endTimeMinutes) {
+				return orderMinutes >= startTimeMinutes && orderMinutes <= endTimeMinutes && this.appliesOnDay(zonedDate);
+			}
 
-			if (orderMinutes < startTimeMinutes) {
-				return false;
+			// Overnight segment: weekDays and dates refer to the day the segment starts
+			if (orderMinutes >= startTimeMinutes) {
+				return this.appliesOnDay(zonedDate);
 			}
+
+			return orderMinutes <= endTimeMinutes && this.appliesOnDay(subDays(zonedDate, 1));
+		});
+	}
+
+	public countsSource(source: OrderSource): boolean {
+		return (this.rule.sources ?? DEFAULT_RULE_SOURCES).includes(source);
+	}
+
+	public throttlesSource(source: OrderSource): boolean {
+		return (this.rule.throttleSources ?? this.rule.sources ?? DEFAULT_RULE_SOURCES).includes(source);
+	}
+
+	private getSourceWeight(source: OrderSource): number {
+		return this.rule.sourceWeights?.[source] ?? 1;
+	}
+
+	public getTiers(): RuleTier[] {
+		return [
+			{
+				busyTimeMinutes: this.rule.busyTimeMinutes,
+				maxOrders: this.rule.maxOrders,
+				maxItems: this.rule.maxItems,
+				maxAmountCents: this.rule.maxAmountCents,
+				maxLoad: this.rule.maxLoad,
+				maxConcurrentLoad: this.rule.maxConcurrentLoad,
+			},
+			...(this.rule.tiers ?? []),
+		];
+	}
+
+	private getItemLoad(item: OrderItem): number {
+		const weight =
+			this.loadModel.itemWeights?.[item.itemId] ??
+			(item.categoryId ? this.loadModel.categoryWeights?.[item.categoryId] : undefined) ??
+			this.loadModel.defaultWeight ??
+			1;
+
+		return (item.quantity ?? 1) * weight;
+	}
+
+	private getItemPrepSeconds(item: OrderItem): number {
+		const prepMinutes =
+			this.loadModel.itemPrepMinutes?.[item.itemId] ??
+			(item.categoryId ? this.loadModel.categoryPrepMinutes?.[item.categoryId] : undefined) ??
+			this.loadModel.defaultPrepMinutes ??
+			0;
+
+		return minutesToSeconds(prepMinutes);
+	}
+
+	private getMaxPrepSeconds(): number {
+		return minutesToSeconds(
+			Math.max(
+				this.loadModel.defaultPrepMinutes ?? 0,
+				...Object.values(this.loadModel.categoryPrepMinutes ?? {}),
+				...Object.values(this.loadModel.itemPrepMinutes ?? {}),
+			),
+		);
+	}
+
+	public getLoadTimeWindow(timeWindow: TimeWindow): TimeWindow {
+		const maxPrepSeconds = this.getMaxPrepSeconds();
+
+		return { start: timeWindow.start - maxPrepSeconds, end: timeWindow.end + maxPrepSeconds };
+	}
+
+	private static filterOrdersInWindow(orders: Order[], timeWindow: TimeWindow): Order[] {
+		return orders.filter(
+			(order) => order.orderTimeSeconds >= timeWindow.start && order.orderTimeSeconds <= timeWindow.end,
+		);
+	}
+
+	private hasCategoryFilter(): boolean {
+		return (
+			this.rule.categoryIds.length > 0 ||
+			(this.rule.excludeCategoryIds ?? []).length > 0 ||
+			this.rule.resource !== undefined
+		);
+	}
+
+	private matchesCategory(categoryId: string | null): boolean {
+		if (this.rule.resource !== undefined && !(categoryId && this.resources[this.rule.resource]?.includes(categoryId))) {
+			return false;
 		}
 
-		if (this.rule.endTime) {
-			const endTimeMinutes = timeStringToMinutes(this.rule.endTime);
+		if (this.rule.categoryIds.length > 0 && !(categoryId && this.rule.categoryIds.includes(categoryId))) {
+			return false;
+		}
 
-			if (orderMinutes > endTimeMinutes) {
-				return false;
-			}
+		return !(categoryId && this.rule.excludeCategoryIds?.includes(categoryId));
+	}
+
+	private getMatchingItems(order: Order): OrderItem[] {
+		const items = order.items ?? [];
+
+		if (!this.hasCategoryFilter()) {
+			return items;
 		}
 
-		return true;
+		return items.filter((item) => this.matchesCategory(item.categoryId));
 	}
 
-	public thresholdCheck(orders: Order[]): { threshold: Threshold; busyTimeContext: BusyTimeContext } | null {
-		const allOrdersTotalItems = orders.reduce(
-			(ordersSum, order) =>
-				ordersSum + (order.items?.reduce((itemsSum, item) => itemsSum + (item.quantity ?? 1), 0) ?? 0),
-			0,
+	public getOrderCount(order: Order): number {
+		if (!this.countsSource(order.source)) {
+			return 0;
+		}
+
+		const items = this.getMatchingItems(order);
+
+		if (this.hasCategoryFilter() && items.length === 0) {
+			return 0;
+		}
+
+		const quantity = items.reduce((itemsSum, item) => itemsSum + (item.quantity ?? 1), 0);
+
+		return (
+			(this.rule.orderCountMode === OrderCountMode.MATCHING_ITEMS ? quantity : 1) * this.getSourceWeight(order.source)
 		);
+	}
 
-		const allOrdersTotalAmountCents = orders.reduce((ordersSum, order) => ordersSum + (order.totalAmountCents ?? 0), 0);
+	// Rules that count orders the same way share a forecast profile
+	public getOrderCountKey(): string {
+		return JSON.stringify([
+			this.rule.sources ?? DEFAULT_RULE_SOURCES,
+			this.rule.sourceWeights ?? {},
+			this.rule.categoryIds,
+			this.rule.excludeCategoryIds ?? [],
+			this.rule.resource === undefined ? null : (this.resources[this.rule.resource] ?? []),
+			this.rule.orderCountMode ?? OrderCountMode.ORDER,
+		]);
+	}
 
-		const allOrdersCategoryIds = new Set<string>();
+	// Items are prepared in parallel and are all ready when the order is due, or as soon as the longest one is done
+	private getPrepIntervals(order: Order): PrepInterval[] {
+		const items = this.getMatchingItems(order);
+		const prepSeconds = items.map((item) => this.getItemPrepSeconds(item));
+		const readySeconds = Math.max(order.orderTimeSeconds, toSeconds(order.placedAt) + Math.max(0, ...prepSeconds));
+		const weight = this.getSourceWeight(order.source);
 
-		for (const order of orders) {
-			if (order.items) {
-				for (const item of order.items) {
-					if (item.categoryId) {
-						allOrdersCategoryIds.add(item.categoryId);
-					}
-				}
+		return items.map((item, index) => ({
+			start: readySeconds - prepSeconds[index],
+			end: readySeconds,
+			load: this.getItemLoad(item) * weight,
+		}));
+	}
+
+	private calculateConcurrentLoad(orders: Order[], timeWindow: TimeWindow): number {
+		const intervals = orders
+			.filter((order) => this.countsSource(order.source))
+			.flatMap((order) => this.getPrepIntervals(order));
+
+		let peakLoad = 0;
+
+		for (const interval of intervals) {
+			const instant = Math.max(interval.start, timeWindow.start);
+
+			if (instant > timeWindow.end || instant > interval.end) {
+				continue;
 			}
+
+			// Intervals are half-open so back-to-back prep does not overlap, items without prep count at their ready time
+			const load = intervals.reduce(
+				(loadSum, { start, end, load }) =>
+					start <= instant && (instant < end || instant === start) ? loadSum + load : loadSum,
+				0,
+			);
+
+			peakLoad = Math.max(peakLoad, load);
 		}
 
-		let applicableTotalAmountCents = 0;
-		let applicableTotalItems = 0;
+		return peakLoad;
+	}
 
-		const relevantOrders =
-			this.rule.categoryIds.length > 0
-				? orders.filter((order) => {
-						if (!order.items || order.items.length === 0) {
-							return false;
-						}
+	public calculateTotals(orders: Order[], timeWindow: TimeWindow): RuleTotals {
+		const totals: RuleTotals = {
+			orders: 0,
+			items: 0,
+			amountCents: 0,
+			load: 0,
+			concurrentLoad: this.calculateConcurrentLoad(orders, timeWindow),
+		};
 
-						let hasMatchingCategory = false;
+		for (const order of EngineRule.filterOrdersInWindow(orders, timeWindow)) {
+			if (!this.countsSource(order.source)) {
+				continue;
+			}
 
-						for (const item of order.items) {
-							if (item.categoryId && this.rule.categoryIds.includes(item.categoryId)) {
-								hasMatchingCategory = true;
-								applicableTotalAmountCents += item.totalAmountCents ?? 0;
-								applicableTotalItems += item.quantity ?? 1;
-							}
-						}
+			const items = this.getMatchingItems(order);
 
-						return hasMatchingCategory;
-					})
-				: orders;
+			if (this.hasCategoryFilter() && items.length === 0) {
+				continue;
+			}
 
-		const totalOrders = relevantOrders.length;
+			const weight = this.getSourceWeight(order.source);
+			const quantity = items.reduce((itemsSum, item) => itemsSum + (item.quantity ?? 1), 0);
 
-		const totalItems = this.rule.categoryIds.length > 0 ? applicableTotalItems : allOrdersTotalItems;
+			const amountCents = this.hasCategoryFilter()
+				? items.reduce((itemsSum, item) => itemsSum + (item.totalAmountCents ?? 0), 0)
+				: (order.totalAmountCents ?? 0);
 
-		const totalAmount = this.rule.categoryIds.length > 0 ? applicableTotalAmountCents : allOrdersTotalAmountCents;
+			totals.orders += this.getOrderCount(order);
+			totals.items += quantity * weight;
+			totals.amountCents += amountCents * weight;
+			totals.load += items.reduce((itemsSum, item) => itemsSum + this.getItemLoad(item), 0) * weight;
+		}
 
-		if (this.rule.maxOrders && this.rule.maxOrders > 0 && totalOrders >= this.rule.maxOrders) {
-			return {
-				threshold: {
-					type: "orders",
-					value: totalOrders,
-					limit: this.rule.maxOrders,
-					categoryIds: this.rule.categoryIds,
-				},
-				busyTimeContext: {
-					totalAmountCents: allOrdersTotalAmountCents,
-					totalItems: allOrdersTotalItems,
-					totalOrders: orders.length,
-					categoryIds: Array.from(allOrdersCategoryIds),
-				},
-			};
+		return totals;
+	}
+
+	public calculateRemaining(totals: RuleTotals): RuleRemaining {
+		const remaining = (limit: number | undefined, total: number) =>
+			limit && limit > 0 ? Math.max(0, limit - total) : null;
+
+		return {
+			orders: remaining(this.rule.maxOrders, totals.orders),
+			items: remaining(this.rule.maxItems, totals.items),
+			amountCents: remaining(this.rule.maxAmountCents, totals.amountCents),
+			load: remaining(this.rule.maxLoad, totals.load),
+			concurrentLoad: remaining(this.rule.maxConcurrentLoad, totals.concurrentLoad),
+		};
+	}
+
+	// The expected orders stand in for the orders still to come, so they are compared instead of added to the count
+	private static checkLimits(
+		limits: RuleLimits,
+		totals: RuleTotals,
+		expectedOrders = 0,
+	): Omit<Threshold, "categoryIds" | "tier"> | null {
+		if (limits.maxOrders && limits.maxOrders > 0 && Math.max(totals.orders, expectedOrders) >= limits.maxOrders) {
+			return { type: "orders", value: Math.max(totals.orders, expectedOrders), limit: limits.maxOrders };
 		}
 
-		if (this.rule.maxItems && this.rule.maxItems > 0 && totalItems >= this.rule.maxItems) {
-			return {
-				threshold: {
-					type: "items",
-					value: totalItems,
-					limit: this.rule.maxItems,
-					categoryIds: this.rule.categoryIds,
-				},
-				busyTimeContext: {
-					totalAmountCents: allOrdersTotalAmountCents,
-					totalItems: allOrdersTotalItems,
-					totalOrders: orders.length,
-					categoryIds: Array.from(allOrdersCategoryIds),
-				},
-			};
+		if (limits.maxItems && limits.maxItems > 0 && totals.items >= limits.maxItems) {
+			return { type: "items", value: totals.items, limit: limits.maxItems };
+		}
+
+		if (limits.maxAmountCents && limits.maxAmountCents > 0 && totals.amountCents >= limits.maxAmountCents) {
+			return { type: "amount", value: totals.amountCents, limit: limits.maxAmountCents };
 		}
 
-		if (this.rule.maxAmountCents && this.rule.maxAmountCents > 0 && totalAmount >= this.rule.maxAmountCents) {
+		if (limits.maxLoad && limits.maxLoad > 0 && totals.load >= limits.maxLoad) {
+			return { type: "load", value: totals.load, limit: limits.maxLoad };
+		}
+
+		if (limits.maxConcurrentLoad && limits.maxConcurrentLoad > 0 && totals.concurrentLoad >= limits.maxConcurrentLoad) {
+			return { type: "concurrent_load", value: totals.concurrentLoad, limit: limits.maxConcurrentLoad };
+		}
+
+		return null;
+	}
+
+	public nearingCheck(storedOrders: Order[], order: Order, timeWindow: TimeWindow, ratio: number): Threshold | null {
+		const limitByType: Record<Threshold["type"], number | undefined> = {
+			orders: this.rule.maxOrders,
+			items: this.rule.maxItems,
+			amount: this.rule.maxAmountCents,
+			load: this.rule.maxLoad,
+			concurrent_load: this.rule.maxConcurrentLoad,
+		};
+
+		const scale = (limit: number | undefined) => (limit === undefined ? undefined : limit * ratio);
+
+		const nearingLimits: RuleLimits = {
+			maxOrders: scale(limitByType.orders),
+			maxItems: scale(limitByType.items),
+			maxAmountCents: scale(limitByType.amount),
+			maxLoad: scale(limitByType.load),
+			maxConcurrentLoad: scale(limitByType.concurrent_load),
+		};
+
+		if (EngineRule.checkLimits(nearingLimits, this.calculateTotals(storedOrders, timeWindow))) {
+			return null;
+		}
+
+		const nearing = EngineRule.checkLimits(nearingLimits, this.calculateTotals([...storedOrders, order], timeWindow));
+
+		if (!nearing) {
+			return null;
+		}
+
+		return {
+			...nearing,
+			limit: limitByType[nearing.type] ?? nearing.limit,
+			categoryIds: this.rule.categoryIds,
+			tier: 0,
+		};
+	}
+
+	private getBusyTimeContext(orders: Order[], expectedOrders: number): BusyTimeContext {
+		const categoryIds = new Set<string>();
+
+		for (const order of orders) {
+			for (const item of order.items ?? []) {
+				if (item.categoryId) {
+					categoryIds.add(item.categoryId);
+				}
+			}
+		}
+
+		return {
+			totalAmountCents: orders.reduce((ordersSum, order) => ordersSum + (order.totalAmountCents ?? 0), 0),
+			totalItems: orders.reduce(
+				(ordersSum, order) =>
+					ordersSum + (order.items?.reduce((itemsSum, item) => itemsSum + (item.quantity ?? 1), 0) ?? 0),
+				0,
+			),
+			totalOrders: orders.length,
+			totalLoad: orders.reduce(
+				(ordersSum, order) =>
+					ordersSum + (order.items?.reduce((itemsSum, item) => itemsSum + this.getItemLoad(item), 0) ?? 0),
+				0,
+			),
+			categoryIds: Array.from(categoryIds),
+			expectedOrders,
+		};
+	}
+
+	public thresholdCheck(orders: Order[], timeWindow: TimeWindow, expectedOrders = 0): ThresholdInfo | null {
+		const totals = this.calculateTotals(orders, timeWindow);
+		const tiers = this.getTiers();
+
+		for (let tier = tiers.length - 1; tier >= 0; tier--) {
+			const exceededLimit = EngineRule.checkLimits(tiers[tier], totals, expectedOrders);
+
+			if (!exceededLimit) {
+				continue;
+			}
+
 			return {
 				threshold: {
-					type: "amount",
-					value: totalAmount,
-					limit: this.rule.maxAmountCents,
+					...exceededLimit,
 					categoryIds: this.rule.categoryIds,
+					tier,
 				},
-				busyTimeContext: {
-					totalAmountCents: allOrdersTotalAmountCents,
-					totalItems: allOrdersTotalItems,
-					totalOrders: orders.length,
-					categoryIds: Array.from(allOrdersCategoryIds),
-				},
+				busyTimeContext: this.getBusyTimeContext(
+					EngineRule.filterOrdersInWindow(orders, timeWindow).filter((order) => this.countsSource(order.source)),
+					expectedOrders,
+				),
+				busyTimeMinutes: tiers[tier].busyTimeMinutes,
 			};
 		}
 
@@ -1,20 +1,95 @@
 import { defaultRuleSet } from "../rules";
 import type { Rule } from "../rules/types";
 import EngineRule from "./EngineRule";
+import type { LoadModel, Resources } from "./types";
 
 export default class EngineRules {
+	public readonly version: number;
 	private rules: Rule[] = [];
+	private loadModel: LoadModel;
+	private resources: Resources;
+
+	constructor(rules: Rule[], loadModel: LoadModel = {}, resources: Resources = {}, version = 0) {
+		EngineRules.validateLoadModel(loadModel);
+		EngineRules.validateResources(resources);
+
+		this.version = version;
+		this.loadModel = loadModel;
+		this.resources = resources;
 
-	constructor(rules: Rule[]) {
 		if (!Array.isArray(rules)) {
 			return;
 		}
 
+		EngineRules.validateRules(rules, resources);
+
+		this.rules = rules;
+	}
+
+	public static validateRules(rules: Rule[], resources: Resources): void {
+		const [error] = defaultRuleSet.validateAll(rules);
+
+		if (error) {
+			throw error;
+		}
+
 		for (const rule of rules) {
-			defaultRuleSet.validate(rule);
+			if (rule.resource !== undefined && !(rule.resource in resources)) {
+				throw new Error(`Rule ${rule.ruleId} targets unknown resource ${rule.resource}`);
+			}
 		}
+	}
 
-		this.rules = rules;
+	private static validateLoadModel(loadModel: LoadModel): void {
+		const isValidWeight = (weight: unknown) => typeof weight === "number" && Number.isFinite(weight) && weight >= 0;
+
+		if (loadModel.defaultWeight !== undefined && !isValidWeight(loadModel.defaultWeight)) {
+			throw new Error("loadModel.defaultWeight must be a non-negative number");
+		}
+
+		if (loadModel.defaultPrepMinutes !== undefined && !isValidWeight(loadModel.defaultPrepMinutes)) {
+			throw new Error("loadModel.defaultPrepMinutes must be a non-negative number (in minutes)");
+		}
+
+		for (const key of ["categoryWeights", "itemWeights", "categoryPrepMinutes", "itemPrepMinutes"] as const) {
+			const weights = loadModel[key];
+
+			if (weights === undefined) {
+				continue;
+			}
+
+			if (typeof weights !== "object" || weights === null || Array.isArray(weights)) {
+				throw new Error(`loadModel.${key} must be an object`);
+			}
+
+			if (!Object.values(weights).every(isValidWeight)) {
+				throw new Error(`loadModel.${key} must only contain non-negative numbers`);
+			}
+		}
+	}
+
+	private static validateResources(resources: Resources): void {
+		if (typeof resources !== "object" || resources === null || Array.isArray(resources)) {
+			throw new Error("resources must be an object");
+		}
+
+		const resourceByCategory = new Map<string, string>();
+
+		for (const [resource, categoryIds] of Object.entries(resources)) {
+			if (!Array.isArray(categoryIds) || !categoryIds.every((categoryId) => typeof categoryId === "string")) {
+				throw new Error(`resources.${resource} must be an array of category IDs`);
+			}
+
+			for (const categoryId of categoryIds) {
+				const mappedResource = resourceByCategory.get(categoryId);
+
+				if (mappedResource !== undefined && mappedResource !== resource) {
+					throw new Error(`Category ${categoryId} is mapped to both resources ${mappedResource} and ${resource}`);
+				}
+
+				resourceByCategory.set(categoryId, resource);
+			}
+		}
 	}
 
 	public hasRules(): boolean {
@@ -22,6 +97,14 @@ export default class EngineRules {
 	}
 
 	public getEngineRules(): EngineRule[] {
-		return this.rules.map((rule) => new EngineRule(rule));
+		return this.rules
+			.map((rule) => new EngineRule(rule, this.loadModel, this.resources))
+			.sort((a, b) => (b.rule.priority ?? 0) - (a.rule.priority ?? 0));
+	}
+
+	public getEngineRule(ruleId: string): EngineRule | null {
+		const rule = this.rules.find((rule) => rule.ruleId === ruleId);
+
+		return rule ? new EngineRule(rule, this.loadModel, this.resources) : null;
 	}
 }
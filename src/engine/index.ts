@@ -1,2 +1,2 @@
 export { Engine } from "./Engine";
-export { OrderSource, TimeframeMode } from "./types";
+export { BusyTimeKind, BusyTimeStrategy, EngineEventType, OrderCountMode, OrderSource, TimeframeMode } from "./types";
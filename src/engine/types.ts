@@ -5,8 +5,26 @@ export enum TimeframeMode {
 	BEFORE_AND_AFTER = "before_and_after",
 }
 
+export enum BusyTimeStrategy {
+	ALL = "all",
+	MAX = "max",
+	SUM = "sum",
+	FIRST_MATCH = "first_match",
+}
+
+export enum OrderCountMode {
+	ORDER = "order",
+	MATCHING_ITEMS = "matching_items",
+}
+
 export enum OrderSource {
 	PERDIEM = "perdiem",
+	KIOSK = "kiosk",
+	POS = "pos",
+	PHONE = "phone",
+	DOORDASH = "doordash",
+	UBER_EATS = "uber_eats",
+	GRUBHUB = "grubhub",
 	OTHER = "other",
 }
 
@@ -15,7 +33,31 @@ export type TimeWindow = {
 	end: number;
 };
 
-interface OrderItem {
+export interface LoadModel {
+	defaultWeight?: number;
+	categoryWeights?: Record<string, number>;
+	itemWeights?: Record<string, number>;
+	defaultPrepMinutes?: number;
+	categoryPrepMinutes?: Record<string, number>;
+	itemPrepMinutes?: Record<string, number>;
+}
+
+export type Resources = Record<string, string[]>;
+
+export interface ForecastOptions {
+	slotMinutes?: number;
+	smoothing?: number;
+	refreshMinutes?: number;
+}
+
+export type DemandProfile = Partial<Record<number, number[]>>;
+
+export type TimeSlot = {
+	startTime: Date;
+	endTime: Date;
+};
+
+export interface OrderItem {
 	itemId: string;
 	quantity: number;
 	totalAmountCents: number;
@@ -28,34 +70,190 @@ export interface Order {
 	totalAmountCents: number;
 	source: OrderSource;
 	orderTime: Date;
+	placedAt: Date;
 	orderTimeSeconds: number;
 	currentTimeSeconds: number;
 }
 
-export interface InputOrder extends Omit<Order, "orderTimeSeconds" | "currentTimeSeconds"> {}
+export interface InputOrder extends Omit<Order, "orderTime" | "placedAt" | "orderTimeSeconds" | "currentTimeSeconds"> {
+	orderTime?: Date;
+	placedAt?: Date;
+	fulfillAt?: Date;
+}
 
 export interface Threshold {
-	type: "orders" | "items" | "amount";
+	type: "orders" | "items" | "amount" | "load" | "concurrent_load";
 	value: number;
 	limit: number;
 	categoryIds: string[];
+	tier: number;
 }
 
 export interface BusyTimeContext {
 	totalAmountCents: number;
 	totalItems: number;
 	totalOrders: number;
+	totalLoad: number;
 	categoryIds: string[];
+	expectedOrders: number;
+}
+
+export interface RuleTotals {
+	orders: number;
+	items: number;
+	amountCents: number;
+	load: number;
+	concurrentLoad: number;
+}
+
+export interface RuleRemaining {
+	orders: number | null;
+	items: number | null;
+	amountCents: number | null;
+	load: number | null;
+	concurrentLoad: number | null;
+}
+
+export interface ThresholdInfo {
+	threshold: Threshold;
+	busyTimeContext: BusyTimeContext;
+	busyTimeMinutes: number;
 }
 
-export interface BusyTime {
+export enum BusyTimeKind {
+	RULE = "rule",
+	MANUAL = "manual",
+}
+
+interface BaseBusyTime {
 	busyTimeId: string;
-	ruleId: string;
 	startTime: Date;
 	endTime: Date;
-	orderTimeSeconds: number;
 	currentTimeSeconds: number;
 	busyTimeSeconds: number;
+	resource: string | null;
+}
+
+export interface RuleBusyTime extends BaseBusyTime {
+	kind: BusyTimeKind.RULE;
+	ruleId: string;
+	ruleVersion: number;
+	orderId: string;
+	orderTimeSeconds: number;
 	busyTimeContext: BusyTimeContext;
 	threshold: Threshold;
 }
+
+export interface ManualBusyTime extends BaseBusyTime {
+	kind: BusyTimeKind.MANUAL;
+	reason: string;
+	createdBy: string;
+}
+
+export type BusyTime = RuleBusyTime | ManualBusyTime;
+
+export interface ManualBusyTimeInput {
+	startTime?: Date;
+	endTime: Date;
+	reason: string;
+	createdBy: string;
+	resource?: string;
+}
+
+export interface RuleWindowStats {
+	ruleId: string;
+	timeWindow: TimeWindow;
+	totals: RuleTotals;
+	threshold: Threshold | null;
+}
+
+export interface OrderTimeValidation {
+	waitPeriodSeconds: number;
+	ordersInWindow: number;
+	busyTimes: BusyTime[];
+	rules: RuleWindowStats[];
+}
+
+export interface RuleCheck extends RuleWindowStats {
+	exceededBy: number;
+}
+
+export interface OrderCheck {
+	exceeded: boolean;
+	rules: RuleCheck[];
+}
+
+export interface ForecastSlot extends TimeSlot {
+	expectedOrders: number;
+}
+
+export interface RuleCapacity {
+	ruleId: string;
+	timeWindow: TimeWindow;
+	totals: RuleTotals;
+	remaining: RuleRemaining;
+}
+
+export enum EngineEventType {
+	ORDER_ADDED = "order_added",
+	BUSY_TIME_CREATED = "busy_time_created",
+	BUSY_TIME_REMOVED = "busy_time_removed",
+	BUSY_TIME_STARTED = "busy_time_started",
+	BUSY_TIME_ENDED = "busy_time_ended",
+	THRESHOLD_NEARING = "threshold_nearing",
+}
+
+export interface OrderAddedEvent {
+	type: EngineEventType.ORDER_ADDED;
+	bucket: string;
+	order: Order;
+}
+
+export interface BusyTimeCreatedEvent {
+	type: EngineEventType.BUSY_TIME_CREATED;
+	bucket: string;
+	busyTime: BusyTime;
+}
+
+export interface BusyTimeRemovedEvent {
+	type: EngineEventType.BUSY_TIME_REMOVED;
+	bucket: string;
+	busyTime: BusyTime;
+}
+
+export interface BusyTimeStartedEvent {
+	type: EngineEventType.BUSY_TIME_STARTED;
+	bucket: string;
+	busyTime: BusyTime;
+}
+
+export interface BusyTimeEndedEvent {
+	type: EngineEventType.BUSY_TIME_ENDED;
+	bucket: string;
+	busyTime: BusyTime;
+}
+
+export interface ThresholdNearingEvent {
+	type: EngineEventType.THRESHOLD_NEARING;
+	bucket: string;
+	ruleId: string;
+	orderId: string;
+	threshold: Threshold;
+}
+
+export type EngineEvent =
+	| OrderAddedEvent
+	| BusyTimeCreatedEvent
+	| BusyTimeRemovedEvent
+	| BusyTimeStartedEvent
+	| BusyTimeEndedEvent
+	| ThresholdNearingEvent;
+
+export interface EngineHooks {
+	onOrderAdded?: (event: OrderAddedEvent) => void | Promise<void>;
+	onBusyTimeCreated?: (event: BusyTimeCreatedEvent) => void | Promise<void>;
+	onBusyTimeRemoved?: (event: BusyTimeRemovedEvent) => void | Promise<void>;
+	onBusyTimeStarted?: (event: BusyTimeStartedEvent) => void | Promise<void>;
+	onBusyTimeEnded?: (event: BusyTimeEndedEvent) => void | Promise<void>;
+	onThresholdNearing?: (event: ThresholdNearingEvent) => void | Promise<void>;
+}
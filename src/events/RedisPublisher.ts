@@ -0,0 +1,69 @@
+import type Redis from "ioredis";
+import { EVENTS_STREAM_MAX_LENGTH, EVENTS_STREAM_RETENTION_SECONDS } from "../constants";
+import type { EngineEvent } from "../engine/types";
+import type { EventPublisher } from "./types";
+
+export enum RedisPublisherMode {
+	PUBSUB = "pubsub",
+	STREAM = "stream",
+}
+
+type RedisPublisherOptions = {
+	mode?: RedisPublisherMode;
+	streamMaxLength?: number;
+	streamRetentionSeconds?: number;
+};
+
+export class RedisPublisher implements EventPublisher {
+	private redis: Redis;
+	private mode: RedisPublisherMode;
+	private streamMaxLength: number;
+	private streamRetentionSeconds: number;
+
+	constructor(
+		redis: Redis,
+		{
+			mode = RedisPublisherMode.PUBSUB,
+			streamMaxLength = EVENTS_STREAM_MAX_LENGTH,
+			streamRetentionSeconds = EVENTS_STREAM_RETENTION_SECONDS,
+		}: RedisPublisherOptions = {},
+	) {
+		if (!Object.values(RedisPublisherMode).includes(mode)) {
+			throw new Error(`mode must be one of: ${Object.values(RedisPublisherMode).join(", ")}`);
+		}
+
+		if (!Number.isInteger(streamMaxLength) || streamMaxLength <= 0) {
+			throw new Error("streamMaxLength must be a positive integer");
+		}
+
+		if (!Number.isInteger(streamRetentionSeconds) || streamRetentionSeconds <= 0) {
+			throw new Error("streamRetentionSeconds must be a positive integer (in seconds)");
+		}
+
+		this.redis = redis;
+		this.mode = mode;
+		this.streamMaxLength = streamMaxLength;
+		this.streamRetentionSeconds = streamRetentionSeconds;
+	}
+
+	public static getKey(bucket: string): string {
+		return `events:${bucket}`;
+	}
+
+	public async publish(bucket: string, event: EngineEvent): Promise<void> {
+		const key = RedisPublisher.getKey(bucket);
+		const payload = JSON.stringify(event);
+
+		if (this.mode === RedisPublisherMode.STREAM) {
+			await this.redis
+				.multi()
+				.xadd(key, "MAXLEN", "~", this.streamMaxLength, "*", "type", event.type, "event", payload)
+				.expire(key, this.streamRetentionSeconds)
+				.exec();
+
+			return;
+		}
+
+		await this.redis.publish(key, payload);
+	}
+}
@@ -0,0 +1,2 @@
+export { RedisPublisher, RedisPublisherMode } from "./RedisPublisher";
+export type { EventPublisher } from "./types";
@@ -0,0 +1,5 @@
+import type { EngineEvent } from "../engine/types";
+
+export interface EventPublisher {
+	publish(bucket: string, event: EngineEvent): Promise<void>;
+}
@@ -1,2 +1,13 @@
-export { Engine, OrderSource, TimeframeMode } from "./engine";
+export {
+	BusyTimeKind,
+	BusyTimeStrategy,
+	Engine,
+	EngineEventType,
+	OrderCountMode,
+	OrderSource,
+	TimeframeMode,
+} from "./engine";
+export { type EventPublisher, RedisPublisher, RedisPublisherMode } from "./events";
 export { consoleLogger } from "./logger";
+export { defaultRuleSet, RuleValidationError, RuleValidationErrorCode } from "./rules";
+export { MemoryStore, type PacingStore, RedisStore } from "./store";
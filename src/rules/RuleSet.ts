@@ -1,15 +1,107 @@
-import type { Rule, RuleValidator } from "./types";
+import { RuleValidationError, RuleValidationErrorCode } from "./errors";
+import type { JsonSchema, Rule, RuleListValidator, RuleValidator } from "./types";
 
 export class RuleSet {
 	validators: RuleValidator[] = [];
+	listValidators: RuleListValidator[] = [];
 
 	constructor(...validators: RuleValidator[]) {
 		this.validators = validators;
 	}
 
+	withListValidators(...listValidators: RuleListValidator[]): this {
+		this.listValidators = listValidators;
+
+		return this;
+	}
+
 	validate(rule: Rule): void {
 		for (const validator of this.validators) {
 			validator(rule);
 		}
 	}
+
+	validateAll(rules: Rule[]): RuleValidationError[] {
+		const errors: RuleValidationError[] = [];
+
+		for (const rule of rules) {
+			const ruleErrors: RuleValidationError[] = [];
+
+			for (const validator of this.validators) {
+				try {
+					validator(rule);
+				} catch (error) {
+					if (!(error instanceof RuleValidationError)) {
+						// Validators may trip over fields that already failed validation
+						if (ruleErrors.length > 0) {
+							continue;
+						}
+
+						throw error;
+					}
+
+					ruleErrors.push(error);
+
+					if (!rule) {
+						break;
+					}
+				}
+			}
+
+			errors.push(...ruleErrors);
+		}
+
+		for (const listValidator of this.listValidators) {
+			errors.push(...listValidator(rules.filter(Boolean)));
+		}
+
+		return errors;
+	}
+
+	exportRules(rules: Rule[]): string {
+		const [error] = this.validateAll(rules);
+
+		if (error) {
+			throw error;
+		}
+
+		return JSON.stringify(rules);
+	}
+
+	importRules(json: string): Rule[] {
+		const rules: unknown = JSON.parse(json);
+
+		if (!Array.isArray(rules)) {
+			throw new RuleValidationError(null, null, RuleValidationErrorCode.INVALID_TYPE, "Rules JSON must be an array");
+		}
+
+		const [error] = this.validateAll(rules);
+
+		if (error) {
+			throw error;
+		}
+
+		return rules;
+	}
+
+	toJsonSchema(): JsonSchema {
+		const properties: Record<string, JsonSchema> = {};
+		const required: string[] = [];
+		const allOf: JsonSchema[] = [];
+
+		for (const validator of this.validators) {
+			Object.assign(properties, validator.schema?.properties);
+			required.push(...(validator.schema?.required ?? []));
+			allOf.push(...(validator.schema?.allOf ?? []));
+		}
+
+		return {
+			$schema: "https://json-schema.org/draft/2020-12/schema",
+			title: "Rule",
+			type: "object",
+			properties,
+			required,
+			...(allOf.length > 0 ? { allOf } : {}),
+		};
+	}
 }
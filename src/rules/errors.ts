@@ -0,0 +1,26 @@
+import type { Rule } from "./types";
+
+export enum RuleValidationErrorCode {
+	REQUIRED = "required",
+	INVALID_TYPE = "invalid_type",
+	INVALID_VALUE = "invalid_value",
+	INVALID_FORMAT = "invalid_format",
+	INVALID_RANGE = "invalid_range",
+	CONFLICT = "conflict",
+	DUPLICATE = "duplicate",
+}
+
+export class RuleValidationError extends Error {
+	public readonly ruleId: string | null;
+	public readonly field: string | null;
+	public readonly code: RuleValidationErrorCode;
+
+	constructor(rule: Rule | null | undefined, field: string | null, code: RuleValidationErrorCode, message: string) {
+		super(message);
+
+		this.name = "RuleValidationError";
+		this.ruleId = typeof rule?.ruleId === "string" ? rule.ruleId : null;
+		this.field = field;
+		this.code = code;
+	}
+}
@@ -1,16 +1,31 @@
 import { RuleSet } from "./RuleSet";
 import { validateAtLeastOneThreshold } from "./validators/at-least-one-threshold";
+import { validateBlackoutDates } from "./validators/blackout-dates";
 import { validateBusyTimeMinutes } from "./validators/busy-time-minutes";
 import { validateCategoryIds } from "./validators/category-ids";
+import { validateEffectiveDates } from "./validators/effective-dates";
 import { validateEndTime } from "./validators/end-time";
+import { validateExcludeCategoryIds } from "./validators/exclude-category-ids";
+import { validateForecastMinutes } from "./validators/forecast-minutes";
 import { validateMaxAmountCents } from "./validators/max-amount-cents";
+import { validateMaxConcurrentLoad } from "./validators/max-concurrent-load";
 import { validateMaxItems } from "./validators/max-items";
+import { validateMaxLoad } from "./validators/max-load";
 import { validateMaxOrders } from "./validators/max-orders";
+import { validateOrderCountMode } from "./validators/order-count-mode";
+import { validatePriority } from "./validators/priority";
+import { validateResource } from "./validators/resource";
 import { validateRuleId } from "./validators/rule-id";
 import { validateRuleNotNull } from "./validators/rule-not-null";
+import { validateSourceWeights } from "./validators/source-weights";
+import { validateSources } from "./validators/sources";
 import { validateStartTime } from "./validators/start-time";
+import { validateThrottleSources } from "./validators/throttle-sources";
+import { validateTiers } from "./validators/tiers";
 import { validateTimeFrameMinutes } from "./validators/time-frame-minutes";
 import { validateTimeRange } from "./validators/time-range";
+import { validateTimeSegments } from "./validators/time-segments";
+import { validateUniqueRuleIds } from "./validators/unique-rule-ids";
 import { validateWeekDays } from "./validators/week-days";
 
 export const defaultRuleSet = new RuleSet(
@@ -19,12 +34,29 @@ export const defaultRuleSet = new RuleSet(
 	validateTimeFrameMinutes,
 	validateBusyTimeMinutes,
 	validateCategoryIds,
+	validateExcludeCategoryIds,
+	validateOrderCountMode,
+	validateResource,
 	validateWeekDays,
 	validateStartTime,
 	validateEndTime,
 	validateTimeRange,
+	validateTimeSegments,
+	validateEffectiveDates,
+	validateBlackoutDates,
 	validateMaxOrders,
 	validateMaxItems,
 	validateMaxAmountCents,
+	validateMaxLoad,
+	validateMaxConcurrentLoad,
 	validateAtLeastOneThreshold,
-);
+	validateSources,
+	validateThrottleSources,
+	validateSourceWeights,
+	validatePriority,
+	validateTiers,
+	validateForecastMinutes,
+).withListValidators(validateUniqueRuleIds);
+
+export { RuleValidationError, RuleValidationErrorCode } from "./errors";
+export { RuleSet } from "./RuleSet";
@@ -0,0 +1,104 @@
+import { isMatch } from "date-fns";
+import { RULE_DATE_FORMAT } from "../constants";
+import type { JsonSchema } from "./types";
+
+const MIN_BUSY_TIME_MINUTES = 15;
+
+export const positiveNumberSchema: JsonSchema = { type: "number", exclusiveMinimum: 0 };
+
+export const nonEmptyStringSchema: JsonSchema = { type: "string", minLength: 1, pattern: "\\S" };
+
+export const stringArraySchema: JsonSchema = { type: "array", items: { type: "string" } };
+
+export const busyTimeMinutesSchema: JsonSchema = { type: "number", minimum: MIN_BUSY_TIME_MINUTES };
+
+export const tierBusyTimeMinutesSchema: JsonSchema = {
+	type: "number",
+	exclusiveMinimum: MIN_BUSY_TIME_MINUTES,
+	description: "Must be greater than the previous tier's busyTimeMinutes",
+};
+
+export const timeStringSchema: JsonSchema = {
+	type: "string",
+	pattern: "^([01]\\d|2[0-3]):[0-5]\\d(:[0-5]\\d)?$",
+	description: "Time of day in HH:mm or HH:mm:ss format",
+};
+
+export const dateStringSchema: JsonSchema = {
+	type: "string",
+	format: "date",
+	pattern: "^\\d{4}-\\d{2}-\\d{2}$",
+	description: `Date in ${RULE_DATE_FORMAT} format`,
+};
+
+const typeChecks: Record<string, (value: unknown) => boolean> = {
+	number: (value) => typeof value === "number" && Number.isFinite(value),
+	integer: (value) => Number.isInteger(value),
+	string: (value) => typeof value === "string",
+	array: (value) => Array.isArray(value),
+	object: (value) => typeof value === "object" && value !== null && !Array.isArray(value),
+};
+
+// Evaluates the keywords the rule schemas use, so validators check values against the schema they publish
+export function matchesSchema(schema: JsonSchema, value: unknown): boolean {
+	for (const [keyword, expected] of Object.entries(schema)) {
+		switch (keyword) {
+			case "type":
+				if (!typeChecks[expected as string](value)) {
+					return false;
+				}
+				break;
+			case "enum":
+				if (!(expected as unknown[]).includes(value)) {
+					return false;
+				}
+				break;
+			case "minimum":
+				if ((value as number) < (expected as number)) {
+					return false;
+				}
+				break;
+			case "maximum":
+				if ((value as number) > (expected as number)) {
+					return false;
+				}
+				break;
+			case "exclusiveMinimum":
+				if ((value as number) <= (expected as number)) {
+					return false;
+				}
+				break;
+			case "minLength":
+				if ((value as string).length < (expected as number)) {
+					return false;
+				}
+				break;
+			case "pattern":
+				if (!new RegExp(expected as string, "u").test(value as string)) {
+					return false;
+				}
+				break;
+			case "format":
+				if (expected !== "date" || !isMatch(value as string, RULE_DATE_FORMAT)) {
+					return false;
+				}
+				break;
+			case "minItems":
+				if ((value as unknown[]).length < (expected as number)) {
+					return false;
+				}
+				break;
+			case "items":
+				if (!(value as unknown[]).every((item) => matchesSchema(expected as JsonSchema, item))) {
+					return false;
+				}
+				break;
+			case "description":
+				break;
+			default:
+				throw new Error(`Unsupported schema keyword: ${keyword}`);
+		}
+	}
+
+	return true;
+}
@@ -1,14 +1,67 @@
+import type { OrderCountMode, OrderSource } from "../engine/types";
+import type { RuleValidationError } from "./errors";
+
+export interface RuleLimits {
+	maxOrders?: number;
+	maxItems?: number;
+	maxAmountCents?: number;
+	maxLoad?: number;
+	maxConcurrentLoad?: number;
+}
+
+export interface RuleTier extends RuleLimits {
+	busyTimeMinutes: number;
+}
+
+export interface RuleTimeSegment {
+	startTime: string;
+	endTime: string;
+}
+
+export interface RuleDateRange {
+	from: string;
+	to: string;
+}
+
 export interface Rule {
 	ruleId: string;
 	timeFrameMinutes: number;
 	busyTimeMinutes: number;
 	categoryIds: string[];
+	excludeCategoryIds?: string[];
+	orderCountMode?: OrderCountMode;
+	resource?: string;
 	weekDays: number[];
 	startTime?: string;
 	endTime?: string;
+	timeSegments?: RuleTimeSegment[];
+	effectiveFrom?: string;
+	effectiveTo?: string;
+	blackoutDates?: RuleDateRange[];
 	maxOrders?: number;
 	maxItems?: number;
 	maxAmountCents?: number;
+	maxLoad?: number;
+	maxConcurrentLoad?: number;
+	sources?: OrderSource[];
+	throttleSources?: OrderSource[];
+	sourceWeights?: Partial<Record<OrderSource, number>>;
+	priority?: number;
+	tiers?: RuleTier[];
+	forecastMinutes?: number;
+}
+
+export type JsonSchema = { [keyword: string]: unknown };
+
+export interface RuleSchema {
+	properties?: Record<string, JsonSchema>;
+	required?: string[];
+	allOf?: JsonSchema[];
+}
+
+export interface RuleValidator {
+	(rule: Rule): void;
+	schema?: RuleSchema;
 }
 
-export type RuleValidator = (rule: Rule) => void;
+export type RuleListValidator = (rules: Rule[]) => RuleValidationError[];
@@ -1,7 +1,29 @@
+import { RuleValidationError, RuleValidationErrorCode } from "../errors";
 import type { RuleValidator } from "../types";
 
 export const validateAtLeastOneThreshold: RuleValidator = (rule) => {
-	if (rule.maxOrders === undefined && rule.maxItems === undefined && rule.maxAmountCents === undefined) {
-		throw new Error("At least one threshold must be set (maxOrders, maxItems, or maxAmountCents)");
+	if (
+		rule.maxOrders === undefined &&
+		rule.maxItems === undefined &&
+		rule.maxAmountCents === undefined &&
+		rule.maxLoad === undefined &&
+		rule.maxConcurrentLoad === undefined
+	) {
+		throw new RuleValidationError(
+			rule,
+			null,
+			RuleValidationErrorCode.REQUIRED,
+			"At least one threshold must be set (maxOrders, maxItems, maxAmountCents, maxLoad, or maxConcurrentLoad)",
+		);
 	}
 };
+
+validateAtLeastOneThreshold.schema = {
+	allOf: [
+		{
+			anyOf: ["maxOrders", "maxItems", "maxAmountCents", "maxLoad", "maxConcurrentLoad"].map((key) => ({
+				required: [key],
+			})),
+		},
+	],
+};
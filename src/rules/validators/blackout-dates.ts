@@ -0,0 +1,76 @@
+import { RULE_DATE_FORMAT } from "../../constants";
+import { RuleValidationError, RuleValidationErrorCode } from "../errors";
+import { dateStringSchema, matchesSchema } from "../schema";
+import type { RuleValidator } from "../types";
+
+export const validateBlackoutDates: RuleValidator = (rule) => {
+	if (rule.blackoutDates === undefined) {
+		return;
+	}
+
+	if (!Array.isArray(rule.blackoutDates)) {
+		throw new RuleValidationError(
+			rule,
+			"blackoutDates",
+			RuleValidationErrorCode.INVALID_TYPE,
+			"blackoutDates must be an array",
+		);
+	}
+
+	rule.blackoutDates.forEach((dateRange, index) => {
+		if (!dateRange || typeof dateRange !== "object") {
+			throw new RuleValidationError(
+				rule,
+				`blackoutDates[${index}]`,
+				RuleValidationErrorCode.INVALID_TYPE,
+				`blackoutDates[${index}] must be an object`,
+			);
+		}
+
+		for (const key of ["from", "to"] as const) {
+			if (!matchesSchema(dateStringSchema, dateRange[key])) {
+				throw new RuleValidationError(
+					rule,
+					`blackoutDates[${index}].${key}`,
+					RuleValidationErrorCode.INVALID_FORMAT,
+					`blackoutDates[${index}].${key} must be in ${RULE_DATE_FORMAT} format (e.g., "2024-11-28"), got: "${dateRange[key]}"`,
+				);
+			}
+		}
+
+		if (dateRange.from > dateRange.to) {
+			throw new RuleValidationError(
+				rule,
+				`blackoutDates[${index}]`,
+				RuleValidationErrorCode.INVALID_RANGE,
+				`blackoutDates[${index}].from must not be after to`,
+			);
+		}
+	});
+
+	const sortedDateRanges = [...rule.blackoutDates].sort((a, b) => a.from.localeCompare(b.from));
+
+	for (let index = 1; index < sortedDateRanges.length; index++) {
+		if (sortedDateRanges[index].from <= sortedDateRanges[index - 1].to) {
+			throw new RuleValidationError(
+				rule,
+				"blackoutDates",
+				RuleValidationErrorCode.CONFLICT,
+				`blackoutDates must not overlap, got: ${sortedDateRanges[index - 1].from}..${sortedDateRanges[index - 1].to} and ${sortedDateRanges[index].from}..${sortedDateRanges[index].to}`,
+			);
+		}
+	}
+};
+
+validateBlackoutDates.schema = {
+	properties: {
+		blackoutDates: {
+			type: "array",
+			items: {
+				type: "object",
+				properties: { from: dateStringSchema, to: dateStringSchema },
+				required: ["from", "to"],
+			},
+		},
+	},
+};
@@ -1,7 +1,19 @@
+import { RuleValidationError, RuleValidationErrorCode } from "../errors";
+import { busyTimeMinutesSchema, matchesSchema } from "../schema";
 import type { RuleValidator } from "../types";
 
 export const validateBusyTimeMinutes: RuleValidator = (rule) => {
-	if (typeof rule.busyTimeMinutes !== "number" || rule.busyTimeMinutes < 15) {
-		throw new Error("busyTimeMinutes must be a number >= 15 (in minutes)");
+	if (!matchesSchema(busyTimeMinutesSchema, rule.busyTimeMinutes)) {
+		throw new RuleValidationError(
+			rule,
+			"busyTimeMinutes",
+			RuleValidationErrorCode.INVALID_VALUE,
+			"busyTimeMinutes must be a number >= 15 (in minutes)",
+		);
 	}
 };
+
+validateBusyTimeMinutes.schema = {
+	properties: { busyTimeMinutes: busyTimeMinutesSchema },
+	required: ["busyTimeMinutes"],
+};
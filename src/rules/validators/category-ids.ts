@@ -1,7 +1,19 @@
+import { RuleValidationError, RuleValidationErrorCode } from "../errors";
+import { matchesSchema, stringArraySchema } from "../schema";
 import type { RuleValidator } from "../types";
 
 export const validateCategoryIds: RuleValidator = (rule) => {
-	if (!Array.isArray(rule.categoryIds)) {
-		throw new Error("categoryIds must be an array");
+	if (!matchesSchema(stringArraySchema, rule.categoryIds)) {
+		throw new RuleValidationError(
+			rule,
+			"categoryIds",
+			RuleValidationErrorCode.INVALID_TYPE,
+			"categoryIds must be an array of strings",
+		);
 	}
 };
+
+validateCategoryIds.schema = {
+	properties: { categoryIds: stringArraySchema },
+	required: ["categoryIds"],
+};
@@ -0,0 +1,32 @@
+import { RULE_DATE_FORMAT } from "../../constants";
+import { RuleValidationError, RuleValidationErrorCode } from "../errors";
+import { dateStringSchema, matchesSchema } from "../schema";
+import type { RuleValidator } from "../types";
+
+export const validateEffectiveDates: RuleValidator = (rule) => {
+	for (const key of ["effectiveFrom", "effectiveTo"] as const) {
+		const value = rule[key];
+
+		if (value !== undefined && !matchesSchema(dateStringSchema, value)) {
+			throw new RuleValidationError(
+				rule,
+				key,
+				RuleValidationErrorCode.INVALID_FORMAT,
+				`${key} must be in ${RULE_DATE_FORMAT} format (e.g., "2024-11-28"), got: "${value}"`,
+			);
+		}
+	}
+
+	if (rule.effectiveFrom !== undefined && rule.effectiveTo !== undefined && rule.effectiveFrom > rule.effectiveTo) {
+		throw new RuleValidationError(
+			rule,
+			"effectiveFrom",
+			RuleValidationErrorCode.INVALID_RANGE,
+			"effectiveFrom must not be after effectiveTo",
+		);
+	}
+};
+
+validateEffectiveDates.schema = {
+	properties: { effectiveFrom: dateStringSchema, effectiveTo: dateStringSchema },
+};
@@ -1,5 +1,5 @@
-import { isMatch } from "date-fns";
-
+import { RuleValidationError, RuleValidationErrorCode } from "../errors";
+import { matchesSchema, timeStringSchema } from "../schema";
 import type { RuleValidator } from "../types";
 
 export const validateEndTime: RuleValidator = (rule) => {
@@ -8,10 +8,24 @@ export const validateEndTime: RuleValidator = (rule) => {
 	}
 
 	if (typeof rule.endTime !== "string") {
-		throw new Error("endTime must be a string in HH:mm or HH:mm:ss format");
+		throw new RuleValidationError(
+			rule,
+			"endTime",
+			RuleValidationErrorCode.INVALID_TYPE,
+			"endTime must be a string in HH:mm or HH:mm:ss format",
+		);
 	}
 
-	if (!isMatch(rule.endTime, "HH:mm") && !isMatch(rule.endTime, "HH:mm:ss")) {
-		throw new Error(`endTime must be in HH:mm or HH:mm:ss format (e.g., "09:30", "23:45:00"), got: "${rule.endTime}"`);
+	if (!matchesSchema(timeStringSchema, rule.endTime)) {
+		throw new RuleValidationError(
+			rule,
+			"endTime",
+			RuleValidationErrorCode.INVALID_FORMAT,
+			`endTime must be in HH:mm or HH:mm:ss format (e.g., "09:30", "23:45:00"), got: "${rule.endTime}"`,
+		);
 	}
 };
+
+validateEndTime.schema = {
+	properties: { endTime: timeStringSchema },
+};
@@ -0,0 +1,33 @@
+import { RuleValidationError, RuleValidationErrorCode } from "../errors";
+import { matchesSchema, stringArraySchema } from "../schema";
+import type { RuleValidator } from "../types";
+
+export const validateExcludeCategoryIds: RuleValidator = (rule) => {
+	if (rule.excludeCategoryIds === undefined) {
+		return;
+	}
+
+	if (!matchesSchema(stringArraySchema, rule.excludeCategoryIds)) {
+		throw new RuleValidationError(
+			rule,
+			"excludeCategoryIds",
+			RuleValidationErrorCode.INVALID_TYPE,
+			"excludeCategoryIds must be an array of strings",
+		);
+	}
+
+	const includedCategoryId = rule.excludeCategoryIds.find((categoryId) => rule.categoryIds.includes(categoryId));
+
+	if (includedCategoryId !== undefined) {
+		throw new RuleValidationError(
+			rule,
+			"excludeCategoryIds",
+			RuleValidationErrorCode.CONFLICT,
+			`excludeCategoryIds must not contain categories from categoryIds, got: "${includedCategoryId}"`,
+		);
+	}
+};
+
+validateExcludeCategoryIds.schema = {
+	properties: { excludeCategoryIds: stringArraySchema },
+};
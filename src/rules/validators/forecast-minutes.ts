@@ -0,0 +1,22 @@
+import { RuleValidationError, RuleValidationErrorCode } from "../errors";
+import { matchesSchema, positiveNumberSchema } from "../schema";
+import type { RuleValidator } from "../types";
+
+export const validateForecastMinutes: RuleValidator = (rule) => {
+	if (rule.forecastMinutes === undefined) {
+		return;
+	}
+
+	if (!matchesSchema(positiveNumberSchema, rule.forecastMinutes)) {
+		throw new RuleValidationError(
+			rule,
+			"forecastMinutes",
+			RuleValidationErrorCode.INVALID_VALUE,
+			"forecastMinutes must be a positive number greater than 0 (in minutes)",
+		);
+	}
+};
+
+validateForecastMinutes.schema = {
+	properties: { forecastMinutes: positiveNumberSchema },
+};
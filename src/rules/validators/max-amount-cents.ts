@@ -1,3 +1,5 @@
+import { RuleValidationError, RuleValidationErrorCode } from "../errors";
+import { matchesSchema, positiveNumberSchema } from "../schema";
 import type { RuleValidator } from "../types";
 
 export const validateMaxAmountCents: RuleValidator = (rule) => {
@@ -5,7 +7,16 @@ export const validateMaxAmountCents: RuleValidator = (rule) => {
 		return;
 	}
 
-	if (typeof rule.maxAmountCents !== "number" || rule.maxAmountCents <= 0) {
-		throw new Error("maxAmountCents must be a positive number greater than 0");
+	if (!matchesSchema(positiveNumberSchema, rule.maxAmountCents)) {
+		throw new RuleValidationError(
+			rule,
+			"maxAmountCents",
+			RuleValidationErrorCode.INVALID_VALUE,
+			"maxAmountCents must be a positive number greater than 0",
+		);
 	}
 };
+
+validateMaxAmountCents.schema = {
+	properties: { maxAmountCents: positiveNumberSchema },
+};
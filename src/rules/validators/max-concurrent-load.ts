@@ -0,0 +1,22 @@
+import { RuleValidationError, RuleValidationErrorCode } from "../errors";
+import { matchesSchema, positiveNumberSchema } from "../schema";
+import type { RuleValidator } from "../types";
+
+export const validateMaxConcurrentLoad: RuleValidator = (rule) => {
+	if (rule.maxConcurrentLoad === undefined) {
+		return;
+	}
+
+	if (!matchesSchema(positiveNumberSchema, rule.maxConcurrentLoad)) {
+		throw new RuleValidationError(
+			rule,
+			"maxConcurrentLoad",
+			RuleValidationErrorCode.INVALID_VALUE,
+			"maxConcurrentLoad must be a positive number greater than 0",
+		);
+	}
+};
+
+validateMaxConcurrentLoad.schema = {
+	properties: { maxConcurrentLoad: positiveNumberSchema },
+};
@@ -1,3 +1,5 @@
+import { RuleValidationError, RuleValidationErrorCode } from "../errors";
+import { matchesSchema, positiveNumberSchema } from "../schema";
 import type { RuleValidator } from "../types";
 
 export const validateMaxItems: RuleValidator = (rule) => {
@@ -5,7 +7,16 @@ export const validateMaxItems: RuleValidator = (rule) => {
 		return;
 	}
 
-	if (typeof rule.maxItems !== "number" || rule.maxItems <= 0) {
-		throw new Error("maxItems must be a positive number greater than 0");
+	if (!matchesSchema(positiveNumberSchema, rule.maxItems)) {
+		throw new RuleValidationError(
+			rule,
+			"maxItems",
+			RuleValidationErrorCode.INVALID_VALUE,
+			"maxItems must be a positive number greater than 0",
+		);
 	}
 };
+
+validateMaxItems.schema = {
+	properties: { maxItems: positiveNumberSchema },
+};
@@ -0,0 +1,22 @@
+import { RuleValidationError, RuleValidationErrorCode } from "../errors";
+import { matchesSchema, positiveNumberSchema } from "../schema";
+import type { RuleValidator } from "../types";
+
+export const validateMaxLoad: RuleValidator = (rule) => {
+	if (rule.maxLoad === undefined) {
+		return;
+	}
+
+	if (!matchesSchema(positiveNumberSchema, rule.maxLoad)) {
+		throw new RuleValidationError(
+			rule,
+			"maxLoad",
+			RuleValidationErrorCode.INVALID_VALUE,
+			"maxLoad must be a positive number greater than 0",
+		);
+	}
+};
+
+validateMaxLoad.schema = {
+	properties: { maxLoad: positiveNumberSchema },
+};
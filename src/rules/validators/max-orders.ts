@@ -1,3 +1,5 @@
+import { RuleValidationError, RuleValidationErrorCode } from "../errors";
+import { matchesSchema, positiveNumberSchema } from "../schema";
 import type { RuleValidator } from "../types";
 
 export const validateMaxOrders: RuleValidator = (rule) => {
@@ -5,7 +7,16 @@ export const validateMaxOrders: RuleValidator = (rule) => {
 		return;
 	}
 
-	if (typeof rule.maxOrders !== "number" || rule.maxOrders <= 0) {
-		throw new Error("maxOrders must be a positive number greater than 0");
+	if (!matchesSchema(positiveNumberSchema, rule.maxOrders)) {
+		throw new RuleValidationError(
+			rule,
+			"maxOrders",
+			RuleValidationErrorCode.INVALID_VALUE,
+			"maxOrders must be a positive number greater than 0",
+		);
 	}
 };
+
+validateMaxOrders.schema = {
+	properties: { maxOrders: positiveNumberSchema },
+};
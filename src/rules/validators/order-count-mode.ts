@@ -0,0 +1,24 @@
+import { OrderCountMode } from "../../engine/types";
+import { RuleValidationError, RuleValidationErrorCode } from "../errors";
+import type { RuleValidator } from "../types";
+
+const orderCountModes = Object.values(OrderCountMode) as string[];
+
+export const validateOrderCountMode: RuleValidator = (rule) => {
+	if (rule.orderCountMode === undefined) {
+		return;
+	}
+
+	if (!orderCountModes.includes(rule.orderCountMode)) {
+		throw new RuleValidationError(
+			rule,
+			"orderCountMode",
+			RuleValidationErrorCode.INVALID_VALUE,
+			`orderCountMode must be one of: ${orderCountModes.join(", ")}`,
+		);
+	}
+};
+
+validateOrderCountMode.schema = {
+	properties: { orderCountMode: { type: "string", enum: orderCountModes } },
+};
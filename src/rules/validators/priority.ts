@@ -0,0 +1,24 @@
+import { RuleValidationError, RuleValidationErrorCode } from "../errors";
+import { matchesSchema } from "../schema";
+import type { JsonSchema, RuleValidator } from "../types";
+
+const prioritySchema: JsonSchema = { type: "integer" };
+
+export const validatePriority: RuleValidator = (rule) => {
+	if (rule.priority === undefined) {
+		return;
+	}
+
+	if (!matchesSchema(prioritySchema, rule.priority)) {
+		throw new RuleValidationError(
+			rule,
+			"priority",
+			RuleValidationErrorCode.INVALID_VALUE,
+			"priority must be an integer",
+		);
+	}
+};
+
+validatePriority.schema = {
+	properties: { priority: prioritySchema },
+};
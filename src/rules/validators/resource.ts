@@ -0,0 +1,22 @@
+import { RuleValidationError, RuleValidationErrorCode } from "../errors";
+import { matchesSchema, nonEmptyStringSchema } from "../schema";
+import type { RuleValidator } from "../types";
+
+export const validateResource: RuleValidator = (rule) => {
+	if (rule.resource === undefined) {
+		return;
+	}
+
+	if (!matchesSchema(nonEmptyStringSchema, rule.resource)) {
+		throw new RuleValidationError(
+			rule,
+			"resource",
+			RuleValidationErrorCode.INVALID_VALUE,
+			"resource must be a non-empty string",
+		);
+	}
+};
+
+validateResource.schema = {
+	properties: { resource: nonEmptyStringSchema },
+};
@@ -1,7 +1,19 @@
+import { RuleValidationError, RuleValidationErrorCode } from "../errors";
+import { matchesSchema, nonEmptyStringSchema } from "../schema";
 import type { RuleValidator } from "../types";
 
 export const validateRuleId: RuleValidator = (rule) => {
-	if (typeof rule.ruleId !== "string" || rule.ruleId.trim().length === 0) {
-		throw new Error("ruleId must be a non-empty string");
+	if (!matchesSchema(nonEmptyStringSchema, rule.ruleId)) {
+		throw new RuleValidationError(
+			rule,
+			"ruleId",
+			RuleValidationErrorCode.REQUIRED,
+			"ruleId must be a non-empty string",
+		);
 	}
 };
+
+validateRuleId.schema = {
+	properties: { ruleId: nonEmptyStringSchema },
+	required: ["ruleId"],
+};
@@ -1,7 +1,8 @@
+import { RuleValidationError, RuleValidationErrorCode } from "../errors";
 import type { RuleValidator } from "../types";
 
 export const validateRuleNotNull: RuleValidator = (rule) => {
 	if (!rule) {
-		throw new Error("Rule cannot be null or undefined");
+		throw new RuleValidationError(rule, null, RuleValidationErrorCode.REQUIRED, "Rule cannot be null or undefined");
 	}
 };
@@ -0,0 +1,53 @@
+import { OrderSource } from "../../engine/types";
+import { RuleValidationError, RuleValidationErrorCode } from "../errors";
+import { matchesSchema } from "../schema";
+import type { JsonSchema, RuleValidator } from "../types";
+
+const orderSources = Object.values(OrderSource) as string[];
+
+const weightSchema: JsonSchema = { type: "number", minimum: 0 };
+
+export const validateSourceWeights: RuleValidator = (rule) => {
+	if (rule.sourceWeights === undefined) {
+		return;
+	}
+
+	if (typeof rule.sourceWeights !== "object" || rule.sourceWeights === null || Array.isArray(rule.sourceWeights)) {
+		throw new RuleValidationError(
+			rule,
+			"sourceWeights",
+			RuleValidationErrorCode.INVALID_TYPE,
+			"sourceWeights must be an object mapping order sources to weights",
+		);
+	}
+
+	for (const [source, weight] of Object.entries(rule.sourceWeights)) {
+		if (!orderSources.includes(source)) {
+			throw new RuleValidationError(
+				rule,
+				"sourceWeights",
+				RuleValidationErrorCode.INVALID_VALUE,
+				`sourceWeights keys must be valid order sources (${orderSources.join(", ")}), got: "${source}"`,
+			);
+		}
+
+		if (!matchesSchema(weightSchema, weight)) {
+			throw new RuleValidationError(
+				rule,
+				`sourceWeights.${source}`,
+				RuleValidationErrorCode.INVALID_VALUE,
+				`sourceWeights.${source} must be a number >= 0`,
+			);
+		}
+	}
+};
+
+validateSourceWeights.schema = {
+	properties: {
+		sourceWeights: {
+			type: "object",
+			propertyNames: { enum: orderSources },
+			additionalProperties: weightSchema,
+		},
+	},
+};
@@ -0,0 +1,35 @@
+import { OrderSource } from "../../engine/types";
+import { RuleValidationError, RuleValidationErrorCode } from "../errors";
+import type { RuleValidator } from "../types";
+
+const orderSources = Object.values(OrderSource) as string[];
+
+export const validateSources: RuleValidator = (rule) => {
+	if (rule.sources === undefined) {
+		return;
+	}
+
+	if (!Array.isArray(rule.sources) || rule.sources.length === 0) {
+		throw new RuleValidationError(
+			rule,
+			"sources",
+			RuleValidationErrorCode.INVALID_TYPE,
+			"sources must be a non-empty array",
+		);
+	}
+
+	for (const source of rule.sources) {
+		if (!orderSources.includes(source)) {
+			throw new RuleValidationError(
+				rule,
+				"sources",
+				RuleValidationErrorCode.INVALID_VALUE,
+				`sources must contain valid order sources (${orderSources.join(", ")}), got: "${source}"`,
+			);
+		}
+	}
+};
+
+validateSources.schema = {
+	properties: { sources: { type: "array", minItems: 1, items: { type: "string", enum: orderSources } } },
+};
@@ -1,5 +1,5 @@
-import { isMatch } from "date-fns";
-
+import { RuleValidationError, RuleValidationErrorCode } from "../errors";
+import { matchesSchema, timeStringSchema } from "../schema";
 import type { RuleValidator } from "../types";
 
 export const validateStartTime: RuleValidator = (rule) => {
@@ -8,12 +8,24 @@ export const validateStartTime: RuleValidator = (rule) => {
 	}
 
 	if (typeof rule.startTime !== "string") {
-		throw new Error("startTime must be a string in HH:mm or HH:mm:ss format");
+		throw new RuleValidationError(
+			rule,
+			"startTime",
+			RuleValidationErrorCode.INVALID_TYPE,
+			"startTime must be a string in HH:mm or HH:mm:ss format",
+		);
 	}
 
-	if (!isMatch(rule.startTime, "HH:mm") && !isMatch(rule.startTime, "HH:mm:ss")) {
-		throw new Error(
+	if (!matchesSchema(timeStringSchema, rule.startTime)) {
+		throw new RuleValidationError(
+			rule,
+			"startTime",
+			RuleValidationErrorCode.INVALID_FORMAT,
 			`startTime must be in HH:mm or HH:mm:ss format (e.g., "09:30", "23:45:00"), got: "${rule.startTime}"`,
 		);
 	}
 };
+
+validateStartTime.schema = {
+	properties: { startTime: timeStringSchema },
+};
@@ -0,0 +1,35 @@
+import { OrderSource } from "../../engine/types";
+import { RuleValidationError, RuleValidationErrorCode } from "../errors";
+import type { RuleValidator } from "../types";
+
+const orderSources = Object.values(OrderSource) as string[];
+
+export const validateThrottleSources: RuleValidator = (rule) => {
+	if (rule.throttleSources === undefined) {
+		return;
+	}
+
+	if (!Array.isArray(rule.throttleSources)) {
+		throw new RuleValidationError(
+			rule,
+			"throttleSources",
+			RuleValidationErrorCode.INVALID_TYPE,
+			"throttleSources must be an array",
+		);
+	}
+
+	for (const source of rule.throttleSources) {
+		if (!orderSources.includes(source)) {
+			throw new RuleValidationError(
+				rule,
+				"throttleSources",
+				RuleValidationErrorCode.INVALID_VALUE,
+				`throttleSources must contain valid order sources (${orderSources.join(", ")}), got: "${source}"`,
+			);
+		}
+	}
+};
+
+validateThrottleSources.schema = {
+	properties: { throttleSources: { type: "array", items: { type: "string", enum: orderSources } } },
+};
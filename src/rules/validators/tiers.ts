@@ -0,0 +1,89 @@
+import { RuleValidationError, RuleValidationErrorCode } from "../errors";
+import { matchesSchema, positiveNumberSchema, tierBusyTimeMinutesSchema } from "../schema";
+import type { RuleValidator } from "../types";
+
+export const validateTiers: RuleValidator = (rule) => {
+	if (rule.tiers === undefined) {
+		return;
+	}
+
+	if (!Array.isArray(rule.tiers)) {
+		throw new RuleValidationError(rule, "tiers", RuleValidationErrorCode.INVALID_TYPE, "tiers must be an array");
+	}
+
+	let previousBusyTimeMinutes = rule.busyTimeMinutes;
+
+	rule.tiers.forEach((tier, index) => {
+		if (!tier || typeof tier !== "object") {
+			throw new RuleValidationError(
+				rule,
+				`tiers[${index}]`,
+				RuleValidationErrorCode.INVALID_TYPE,
+				`tiers[${index}] must be an object`,
+			);
+		}
+
+		if (
+			!matchesSchema(tierBusyTimeMinutesSchema, tier.busyTimeMinutes) ||
+			tier.busyTimeMinutes <= previousBusyTimeMinutes
+		) {
+			throw new RuleValidationError(
+				rule,
+				`tiers[${index}].busyTimeMinutes`,
+				RuleValidationErrorCode.INVALID_RANGE,
+				`tiers[${index}].busyTimeMinutes must be a number greater than the previous tier's busyTimeMinutes`,
+			);
+		}
+
+		for (const key of ["maxOrders", "maxItems", "maxAmountCents", "maxLoad", "maxConcurrentLoad"] as const) {
+			if (tier[key] !== undefined && !matchesSchema(positiveNumberSchema, tier[key])) {
+				throw new RuleValidationError(
+					rule,
+					`tiers[${index}].${key}`,
+					RuleValidationErrorCode.INVALID_VALUE,
+					`tiers[${index}].${key} must be a positive number greater than 0`,
+				);
+			}
+		}
+
+		if (
+			tier.maxOrders === undefined &&
+			tier.maxItems === undefined &&
+			tier.maxAmountCents === undefined &&
+			tier.maxLoad === undefined &&
+			tier.maxConcurrentLoad === undefined
+		) {
+			throw new RuleValidationError(
+				rule,
+				`tiers[${index}]`,
+				RuleValidationErrorCode.REQUIRED,
+				`tiers[${index}] must set at least one threshold (maxOrders, maxItems, maxAmountCents, maxLoad, or maxConcurrentLoad)`,
+			);
+		}
+
+		previousBusyTimeMinutes = tier.busyTimeMinutes;
+	});
+};
+
+validateTiers.schema = {
+	properties: {
+		tiers: {
+			type: "array",
+			items: {
+				type: "object",
+				properties: {
+					busyTimeMinutes: tierBusyTimeMinutesSchema,
+					maxOrders: positiveNumberSchema,
+					maxItems: positiveNumberSchema,
+					maxAmountCents: positiveNumberSchema,
+					maxLoad: positiveNumberSchema,
+					maxConcurrentLoad: positiveNumberSchema,
+				},
+				required: ["busyTimeMinutes"],
+				anyOf: ["maxOrders", "maxItems", "maxAmountCents", "maxLoad", "maxConcurrentLoad"].map((key) => ({
+					required: [key],
+				})),
+			},
+		},
+	},
+};
@@ -1,7 +1,19 @@
+import { RuleValidationError, RuleValidationErrorCode } from "../errors";
+import { matchesSchema, positiveNumberSchema } from "../schema";
 import type { RuleValidator } from "../types";
 
 export const validateTimeFrameMinutes: RuleValidator = (rule) => {
-	if (typeof rule.timeFrameMinutes !== "number" || rule.timeFrameMinutes <= 0) {
-		throw new Error("timeFrameMinutes must be a positive number greater than 0 (in minutes)");
+	if (!matchesSchema(positiveNumberSchema, rule.timeFrameMinutes)) {
+		throw new RuleValidationError(
+			rule,
+			"timeFrameMinutes",
+			RuleValidationErrorCode.INVALID_VALUE,
+			"timeFrameMinutes must be a positive number greater than 0 (in minutes)",
+		);
 	}
 };
+
+validateTimeFrameMinutes.schema = {
+	properties: { timeFrameMinutes: positiveNumberSchema },
+	required: ["timeFrameMinutes"],
+};
@@ -1,4 +1,5 @@
 import { timeStringToMinutes } from "../../utils";
+import { RuleValidationError, RuleValidationErrorCode } from "../errors";
 import type { RuleValidator } from "../types";
 
 export const validateTimeRange: RuleValidator = (rule) => {
@@ -6,8 +7,18 @@ export const validateTimeRange: RuleValidator = (rule) => {
 		const startMinutes = timeStringToMinutes(rule.startTime);
 		const endMinutes = timeStringToMinutes(rule.endTime);
 
-		if (startMinutes >= endMinutes) {
-			throw new Error("startTime must be less than endTime");
+		if (startMinutes === endMinutes) {
+			throw new RuleValidationError(
+				rule,
+				"endTime",
+				RuleValidationErrorCode.INVALID_RANGE,
+				"startTime must be different from endTime",
+			);
 		}
 	}
 };
+
+// JSON Schema cannot compare two properties, so the schema only documents this check
+validateTimeRange.schema = {
+	allOf: [{ description: "startTime must be different from endTime" }],
+};
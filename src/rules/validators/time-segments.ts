@@ -0,0 +1,74 @@
+import { timeStringToMinutes } from "../../utils";
+import { RuleValidationError, RuleValidationErrorCode } from "../errors";
+import { matchesSchema, timeStringSchema } from "../schema";
+import type { RuleValidator } from "../types";
+
+export const validateTimeSegments: RuleValidator = (rule) => {
+	if (rule.timeSegments === undefined) {
+		return;
+	}
+
+	if (!Array.isArray(rule.timeSegments) || rule.timeSegments.length === 0) {
+		throw new RuleValidationError(
+			rule,
+			"timeSegments",
+			RuleValidationErrorCode.INVALID_TYPE,
+			"timeSegments must be a non-empty array",
+		);
+	}
+
+	if (rule.startTime !== undefined || rule.endTime !== undefined) {
+		throw new RuleValidationError(
+			rule,
+			"timeSegments",
+			RuleValidationErrorCode.CONFLICT,
+			"timeSegments cannot be combined with startTime or endTime",
+		);
+	}
+
+	rule.timeSegments.forEach((segment, index) => {
+		if (!segment || typeof segment !== "object") {
+			throw new RuleValidationError(
+				rule,
+				`timeSegments[${index}]`,
+				RuleValidationErrorCode.INVALID_TYPE,
+				`timeSegments[${index}] must be an object`,
+			);
+		}
+
+		for (const key of ["startTime", "endTime"] as const) {
+			if (!matchesSchema(timeStringSchema, segment[key])) {
+				throw new RuleValidationError(
+					rule,
+					`timeSegments[${index}].${key}`,
+					RuleValidationErrorCode.INVALID_FORMAT,
+					`timeSegments[${index}].${key} must be in HH:mm or HH:mm:ss format, got: "${segment[key]}"`,
+				);
+			}
+		}
+
+		if (timeStringToMinutes(segment.startTime) === timeStringToMinutes(segment.endTime)) {
+			throw new RuleValidationError(
+				rule,
+				`timeSegments[${index}]`,
+				RuleValidationErrorCode.INVALID_RANGE,
+				`timeSegments[${index}].startTime must be different from endTime`,
+			);
+		}
+	});
+};
+
+validateTimeSegments.schema = {
+	properties: {
+		timeSegments: {
+			type: "array",
+			minItems: 1,
+			items: {
+				type: "object",
+				properties: { startTime: timeStringSchema, endTime: timeStringSchema },
+				required: ["startTime", "endTime"],
+			},
+		},
+	},
+	allOf: [{ not: { anyOf: [{ required: ["timeSegments", "startTime"] }, { required: ["timeSegments", "endTime"] }] } }],
+};
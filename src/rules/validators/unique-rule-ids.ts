@@ -0,0 +1,24 @@
+import { RuleValidationError, RuleValidationErrorCode } from "../errors";
+import type { RuleListValidator } from "../types";
+
+export const validateUniqueRuleIds: RuleListValidator = (rules) => {
+	const seenRuleIds = new Set<string>();
+	const errors: RuleValidationError[] = [];
+
+	for (const rule of rules) {
+		if (seenRuleIds.has(rule.ruleId)) {
+			errors.push(
+				new RuleValidationError(
+					rule,
+					"ruleId",
+					RuleValidationErrorCode.DUPLICATE,
+					`ruleId must be unique, got duplicate: "${rule.ruleId}"`,
+				),
+			);
+		}
+
+		seenRuleIds.add(rule.ruleId);
+	}
+
+	return errors;
+};
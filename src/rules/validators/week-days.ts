@@ -1,15 +1,29 @@
-import type { RuleValidator } from "../types";
+import { RuleValidationError, RuleValidationErrorCode } from "../errors";
+import { matchesSchema } from "../schema";
+import type { JsonSchema, RuleValidator } from "../types";
+
+const weekDaySchema: JsonSchema = { type: "number", minimum: 0, maximum: 6 };
 
 export const validateWeekDays: RuleValidator = (rule) => {
 	if (!Array.isArray(rule.weekDays)) {
-		throw new Error("weekDays must be an array");
+		throw new RuleValidationError(rule, "weekDays", RuleValidationErrorCode.INVALID_TYPE, "weekDays must be an array");
 	}
 
 	if (rule.weekDays.length > 0) {
 		for (const day of rule.weekDays) {
-			if (typeof day !== "number" || day < 0 || day > 6) {
-				throw new Error("weekDays must contain numbers between 0 (Sunday) and 6 (Saturday)");
+			if (!matchesSchema(weekDaySchema, day)) {
+				throw new RuleValidationError(
+					rule,
+					"weekDays",
+					RuleValidationErrorCode.INVALID_VALUE,
+					"weekDays must contain numbers between 0 (Sunday) and 6 (Saturday)",
+				);
 			}
 		}
 	}
 };
+
+validateWeekDays.schema = {
+	properties: { weekDays: { type: "array", items: weekDaySchema } },
+	required: ["weekDays"],
+};
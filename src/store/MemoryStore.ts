@@ -0,0 +1,251 @@
+import { decodeBusyTime, decodeOrder, encodeBusyTime, encodeOrder } from "../encoder";
+import type { BusyTime, Order, TimeWindow } from "../engine/types";
+import type { Rule } from "../rules/types";
+import { toSeconds } from "../utils";
+import { getBusyTimeScore } from "./scores";
+import type {
+	BusyTimesSnapshot,
+	OrderReplacement,
+	PacingStore,
+	Retention,
+	StoredDemandProfile,
+	StoredRules,
+} from "./types";
+
+type Entry = {
+	score: number;
+	value: Buffer;
+};
+
+type BucketData = {
+	orders: Map<string, Entry>;
+	busyTimes: Map<string, Entry>;
+	busyTimesRevision: number;
+	expiresAtSeconds: number | null;
+};
+
+export class MemoryStore implements PacingStore {
+	private buckets = new Map<string, BucketData>();
+	private rules = new Map<string, { version: number; rules: string }>();
+	private demandProfiles = new Map<string, string>();
+
+	private getBucket(bucket: string): BucketData {
+		let data = this.buckets.get(bucket);
+
+		if (data && data.expiresAtSeconds !== null && data.expiresAtSeconds <= toSeconds(Date.now())) {
+			this.buckets.delete(bucket);
+
+			data = undefined;
+		}
+
+		if (!data) {
+			data = { orders: new Map(), busyTimes: new Map(), busyTimesRevision: 0, expiresAtSeconds: null };
+
+			this.buckets.set(bucket, data);
+		}
+
+		return data;
+	}
+
+	private static sortedValues(entries: Map<string, Entry>, timeWindow?: TimeWindow): Buffer[] {
+		return Array.from(entries.values())
+			.filter((entry) => !timeWindow || (entry.score >= timeWindow.start && entry.score <= timeWindow.end))
+			.sort((a, b) => a.score - b.score)
+			.map((entry) => entry.value);
+	}
+
+	private static removeBefore(entries: Map<string, Entry>, beforeSeconds: number): void {
+		for (const [id, entry] of entries) {
+			if (entry.score <= beforeSeconds) {
+				entries.delete(id);
+			}
+		}
+	}
+
+	private static extendExpiry(data: BucketData, expiresAtSeconds: number): void {
+		data.expiresAtSeconds = Math.max(data.expiresAtSeconds ?? 0, expiresAtSeconds);
+	}
+
+	// Manual and scheduled busy times are scored in the future, so they are kept until the retention has passed after them
+	private static extendBusyTimesExpiry(data: BucketData, retention: Retention): void {
+		const latestScore = Math.max(
+			retention.currentTimeSeconds,
+			...[...data.busyTimes.values()].map((entry) => entry.score),
+		);
+
+		MemoryStore.extendExpiry(data, latestScore + retention.busyTimesRetentionSeconds);
+	}
+
+	public async addOrder(
+		bucket: string,
+		order: Order,
+		timeWindow: TimeWindow | null,
+		retention: Retention,
+	): Promise<Order[] | null> {
+		const data = this.getBucket(bucket);
+
+		MemoryStore.removeBefore(data.orders, retention.currentTimeSeconds - retention.ordersRetentionSeconds);
+
+		if (data.orders.has(order.orderId)) {
+			return null;
+		}
+
+		const orders = timeWindow
+			? MemoryStore.sortedValues(data.orders, timeWindow).map((value) => decodeOrder(value))
+			: [];
+
+		data.orders.set(order.orderId, { score: order.orderTimeSeconds, value: encodeOrder(order) });
+		MemoryStore.extendExpiry(data, retention.currentTimeSeconds + retention.ordersRetentionSeconds);
+
+		return orders;
+	}
+
+	public async replaceOrder(
+		bucket: string,
+		order: Order,
+		timeWindow: TimeWindow | null,
+		retention: Retention,
+	): Promise<OrderReplacement> {
+		const data = this.getBucket(bucket);
+
+		MemoryStore.removeBefore(data.orders, retention.currentTimeSeconds - retention.ordersRetentionSeconds);
+
+		const replaced = data.orders.delete(order.orderId);
+		const orders = timeWindow
+			? MemoryStore.sortedValues(data.orders, timeWindow).map((value) => decodeOrder(value))
+			: [];
+
+		data.orders.set(order.orderId, { score: order.orderTimeSeconds, value: encodeOrder(order) });
+		MemoryStore.extendExpiry(data, retention.currentTimeSeconds + retention.ordersRetentionSeconds);
+
+		return { replaced, orders };
+	}
+
+	public async getOrders(bucket: string, timeWindow?: TimeWindow): Promise<Order[]> {
+		const data = this.getBucket(bucket);
+
+		return MemoryStore.sortedValues(data.orders, timeWindow).map((value) => decodeOrder(value));
+	}
+
+	public async removeOrder(bucket: string, orderId: string): Promise<boolean> {
+		const data = this.getBucket(bucket);
+
+		return data.orders.delete(orderId);
+	}
+
+	public async cleanOldOrders(bucket: string, beforeSeconds: number): Promise<void> {
+		MemoryStore.removeBefore(this.getBucket(bucket).orders, beforeSeconds);
+	}
+
+	public async addBusyTimes(bucket: string, busyTimes: BusyTime[], retention: Retention): Promise<void> {
+		if (busyTimes.length === 0) {
+			return;
+		}
+
+		const data = this.getBucket(bucket);
+
+		MemoryStore.removeBefore(data.busyTimes, retention.currentTimeSeconds - retention.busyTimesRetentionSeconds);
+
+		for (const busyTime of busyTimes) {
+			data.busyTimes.set(busyTime.busyTimeId, { score: getBusyTimeScore(busyTime), value: encodeBusyTime(busyTime) });
+		}
+
+		data.busyTimesRevision++;
+
+		MemoryStore.extendBusyTimesExpiry(data, retention);
+	}
+
+	public async getBusyTimes(bucket: string): Promise<BusyTime[]> {
+		const data = this.getBucket(bucket);
+
+		return MemoryStore.sortedValues(data.busyTimes).map((value) => decodeBusyTime(value));
+	}
+
+	public async getBusyTimesSnapshot(bucket: string): Promise<BusyTimesSnapshot> {
+		const data = this.getBucket(bucket);
+
+		return {
+			busyTimes: MemoryStore.sortedValues(data.busyTimes).map((value) => decodeBusyTime(value)),
+			revision: data.busyTimesRevision,
+		};
+	}
+
+	public async commitBusyTimes(
+		bucket: string,
+		revision: number,
+		removedBusyTimeIds: string[],
+		busyTimes: BusyTime[],
+		retention: Retention,
+	): Promise<boolean> {
+		const data = this.getBucket(bucket);
+
+		if (data.busyTimesRevision !== revision) {
+			return false;
+		}
+
+		MemoryStore.removeBefore(data.busyTimes, retention.currentTimeSeconds - retention.busyTimesRetentionSeconds);
+
+		for (const busyTimeId of removedBusyTimeIds) {
+			data.busyTimes.delete(busyTimeId);
+		}
+
+		for (const busyTime of busyTimes) {
+			data.busyTimes.set(busyTime.busyTimeId, { score: getBusyTimeScore(busyTime), value: encodeBusyTime(busyTime) });
+		}
+
+		data.busyTimesRevision++;
+
+		MemoryStore.extendBusyTimesExpiry(data, retention);
+
+		return true;
+	}
+
+	public async removeBusyTimes(bucket: string, busyTimeIds: string[]): Promise<number> {
+		const data = this.getBucket(bucket);
+		let removed = 0;
+
+		for (const busyTimeId of busyTimeIds) {
+			if (data.busyTimes.delete(busyTimeId)) {
+				removed++;
+			}
+		}
+
+		if (removed > 0) {
+			data.busyTimesRevision++;
+		}
+
+		return removed;
+	}
+
+	public async cleanOldBusyTimes(bucket: string, beforeSeconds: number): Promise<void> {
+		MemoryStore.removeBefore(this.getBucket(bucket).busyTimes, beforeSeconds);
+	}
+
+	public async getRules(bucket: string): Promise<StoredRules | null> {
+		const stored = this.rules.get(bucket);
+
+		return stored ? { version: stored.version, rules: JSON.parse(stored.rules) as Rule[] } : null;
+	}
+
+	public async getRulesVersion(bucket: string): Promise<number | null> {
+		return this.rules.get(bucket)?.version ?? null;
+	}
+
+	public async saveRules(bucket: string, rules: Rule[]): Promise<number> {
+		const version = (this.rules.get(bucket)?.version ?? 0) + 1;
+
+		this.rules.set(bucket, { version, rules: JSON.stringify(rules) });
+
+		return version;
+	}
+
+	public async getDemandProfile(bucket: string): Promise<StoredDemandProfile | null> {
+		const stored = this.demandProfiles.get(bucket);
+
+		return stored ? (JSON.parse(stored) as StoredDemandProfile) : null;
+	}
+
+	public async saveDemandProfile(bucket: string, demandProfile: StoredDemandProfile): Promise<void> {
+		this.demandProfiles.set(bucket, JSON.stringify(demandProfile));
+	}
+}
@@ -0,0 +1,365 @@
+import type Redis from "ioredis";
+import { decodeBusyTime, decodeOrder, encodeBusyTime, encodeOrder } from "../encoder";
+import type { BusyTime, Order, TimeWindow } from "../engine/types";
+import type { Rule } from "../rules/types";
+import { getBusyTimeScore } from "./scores";
+import {
+	ADD_BUSY_TIMES_SCRIPT,
+	ADD_ORDER_SCRIPT,
+	COMMIT_BUSY_TIMES_SCRIPT,
+	REPLACE_ORDER_SCRIPT,
+	type RedisScript,
+} from "./scripts";
+import type {
+	BusyTimesSnapshot,
+	OrderReplacement,
+	PacingStore,
+	Retention,
+	StoredDemandProfile,
+	StoredRules,
+} from "./types";
+
+type BucketKeys = {
+	orders: string;
+	orderIds: string;
+	busyTimes: string;
+	busyTimesRevision: string;
+	rules: string;
+	demandProfile: string;
+};
+
+// ioredis provides Buffer variants of every command at runtime, but its typings omit them for scripts
+type BufferScriptCommands = {
+	evalshaBuffer(sha: string, numKeys: number, ...args: (string | number | Buffer)[]): Promise<unknown>;
+	evalBuffer(script: string, numKeys: number, ...args: (string | number | Buffer)[]): Promise<unknown>;
+};
+
+export class RedisStore implements PacingStore {
+	private redis: Redis;
+	private indexedBuckets = new Set<string>();
+
+	constructor(redis: Redis) {
+		this.redis = redis;
+	}
+
+	private static getKeys(bucket: string): BucketKeys {
+		return {
+			orders: `orders:${bucket}`,
+			orderIds: `orderids:${bucket}`,
+			busyTimes: `busytimes:${bucket}`,
+			busyTimesRevision: `busytimesrevision:${bucket}`,
+			rules: `rules:${bucket}`,
+			demandProfile: `demandprofile:${bucket}`,
+		};
+	}
+
+	private async evalScript(script: RedisScript, keys: string[], args: (string | number | Buffer)[]): Promise<unknown> {
+		const redis = this.redis as unknown as BufferScriptCommands;
+
+		try {
+			return await redis.evalshaBuffer(script.sha, keys.length, ...keys, ...args);
+		} catch (error) {
+			if (!(error instanceof Error) || !error.message.startsWith("NOSCRIPT")) {
+				throw error;
+			}
+
+			return redis.evalBuffer(script.lua, keys.length, ...keys, ...args);
+		}
+	}
+
+	// The order scripts return 0 when nothing was written, and an empty window may not come back as an array
+	private static decodeOrders(result: unknown): Order[] | null {
+		if (result === 0) {
+			return null;
+		}
+
+		return Array.isArray(result) ? (result as Buffer[]).map((value) => decodeOrder(value)) : [];
+	}
+
+	// Orders stored before the order ids set existed are indexed once per bucket, so they can be found and deduplicated
+	private async indexOrderIds(bucket: string, keys: BucketKeys): Promise<void> {
+		if (this.indexedBuckets.has(bucket)) {
+			return;
+		}
+
+		const [ordersCount, orderIdsCount] = await Promise.all([
+			this.redis.zcard(keys.orders),
+			this.redis.zcard(keys.orderIds),
+		]);
+
+		if (ordersCount > orderIdsCount) {
+			const orders = (await this.redis.zrangeBuffer(keys.orders, 0, -1)).map((value) => decodeOrder(value));
+
+			await this.redis.zadd(keys.orderIds, "NX", ...orders.flatMap((order) => [order.orderTimeSeconds, order.orderId]));
+		}
+
+		this.indexedBuckets.add(bucket);
+	}
+
+	private async findOrderEntries(bucket: string, keys: BucketKeys, orderId: string): Promise<Buffer[]> {
+		await this.indexOrderIds(bucket, keys);
+
+		const score = await this.redis.zscore(keys.orderIds, orderId);
+
+		if (score === null) {
+			return [];
+		}
+
+		const entries = await this.redis.zrangebyscoreBuffer(keys.orders, score, score);
+
+		return entries.filter((value) => decodeOrder(value).orderId === orderId);
+	}
+
+	public async addOrder(
+		bucket: string,
+		order: Order,
+		timeWindow: TimeWindow | null,
+		retention: Retention,
+	): Promise<Order[] | null> {
+		const keys = RedisStore.getKeys(bucket);
+
+		await this.indexOrderIds(bucket, keys);
+
+		const result = await this.evalScript(
+			ADD_ORDER_SCRIPT,
+			[keys.orders, keys.orderIds],
+			[
+				retention.currentTimeSeconds - retention.ordersRetentionSeconds,
+				retention.ordersRetentionSeconds,
+				order.orderTimeSeconds,
+				encodeOrder(order),
+				order.orderId,
+				timeWindow?.start ?? "",
+				timeWindow?.end ?? "",
+			],
+		);
+
+		return RedisStore.decodeOrders(result);
+	}
+
+	public async replaceOrder(
+		bucket: string,
+		order: Order,
+		timeWindow: TimeWindow | null,
+		retention: Retention,
+	): Promise<OrderReplacement> {
+		const keys = RedisStore.getKeys(bucket);
+
+		for (;;) {
+			const entries = await this.findOrderEntries(bucket, keys, order.orderId);
+
+			const result = await this.evalScript(
+				REPLACE_ORDER_SCRIPT,
+				[keys.orders, keys.orderIds],
+				[
+					retention.currentTimeSeconds - retention.ordersRetentionSeconds,
+					retention.ordersRetentionSeconds,
+					order.orderTimeSeconds,
+					encodeOrder(order),
+					order.orderId,
+					timeWindow?.start ?? "",
+					timeWindow?.end ?? "",
+					...entries,
+				],
+			);
+
+			const orders = RedisStore.decodeOrders(result);
+
+			if (orders) {
+				return { replaced: entries.length > 0, orders };
+			}
+		}
+	}
+
+	public async getOrders(bucket: string, timeWindow?: TimeWindow): Promise<Order[]> {
+		const keys = RedisStore.getKeys(bucket);
+
+		const entries = timeWindow
+			? await this.redis.zrangebyscoreBuffer(keys.orders, timeWindow.start, timeWindow.end)
+			: await this.redis.zrangeBuffer(keys.orders, 0, -1);
+
+		return entries.map((value) => decodeOrder(value));
+	}
+
+	public async removeOrder(bucket: string, orderId: string): Promise<boolean> {
+		const keys = RedisStore.getKeys(bucket);
+		const entries = await this.findOrderEntries(bucket, keys, orderId);
+
+		if (entries.length === 0) {
+			return false;
+		}
+
+		await this.redis
+			.multi()
+			.zrem(keys.orders, ...entries)
+			.zrem(keys.orderIds, orderId)
+			.exec();
+
+		return true;
+	}
+
+	public async cleanOldOrders(bucket: string, beforeSeconds: number): Promise<void> {
+		const keys = RedisStore.getKeys(bucket);
+
+		await this.redis.zremrangebyscore(keys.orders, 0, beforeSeconds);
+		await this.redis.zremrangebyscore(keys.orderIds, 0, beforeSeconds);
+	}
+
+	public async addBusyTimes(bucket: string, busyTimes: BusyTime[], retention: Retention): Promise<void> {
+		if (busyTimes.length === 0) {
+			return;
+		}
+
+		const keys = RedisStore.getKeys(bucket);
+
+		await this.evalScript(
+			ADD_BUSY_TIMES_SCRIPT,
+			[keys.busyTimes, keys.busyTimesRevision],
+			[
+				retention.currentTimeSeconds - retention.busyTimesRetentionSeconds,
+				retention.busyTimesRetentionSeconds,
+				...busyTimes.flatMap((busyTime) => [getBusyTimeScore(busyTime), encodeBusyTime(busyTime)]),
+			],
+		);
+	}
+
+	public async getBusyTimes(bucket: string): Promise<BusyTime[]> {
+		const keys = RedisStore.getKeys(bucket);
+		const entries = await this.redis.zrangeBuffer(keys.busyTimes, 0, -1);
+
+		return entries.map((value) => decodeBusyTime(value));
+	}
+
+	public async getBusyTimesSnapshot(bucket: string): Promise<BusyTimesSnapshot> {
+		const keys = RedisStore.getKeys(bucket);
+		const results = await this.redis.multi().zrangeBuffer(keys.busyTimes, 0, -1).get(keys.busyTimesRevision).exec();
+
+		if (!results) {
+			throw new Error("Failed to read busy times");
+		}
+
+		const [[entriesError, entries], [revisionError, revision]] = results as [
+			[Error | null, Buffer[]],
+			[Error | null, string | null],
+		];
+
+		if (entriesError || revisionError) {
+			throw entriesError ?? revisionError;
+		}
+
+		return { busyTimes: entries.map((value) => decodeBusyTime(value)), revision: Number(revision ?? 0) };
+	}
+
+	public async commitBusyTimes(
+		bucket: string,
+		revision: number,
+		removedBusyTimeIds: string[],
+		busyTimes: BusyTime[],
+		retention: Retention,
+	): Promise<boolean> {
+		const keys = RedisStore.getKeys(bucket);
+		const entries = await this.redis.zrangeBuffer(keys.busyTimes, 0, -1);
+		const removedEntries = entries.filter((value) => removedBusyTimeIds.includes(decodeBusyTime(value).busyTimeId));
+
+		const result = await this.evalScript(
+			COMMIT_BUSY_TIMES_SCRIPT,
+			[keys.busyTimes, keys.busyTimesRevision],
+			[
+				revision,
+				retention.currentTimeSeconds - retention.busyTimesRetentionSeconds,
+				retention.busyTimesRetentionSeconds,
+				removedEntries.length,
+				...removedEntries,
+				...busyTimes.flatMap((busyTime) => [getBusyTimeScore(busyTime), encodeBusyTime(busyTime)]),
+			],
+		);
+
+		return result === 1;
+	}
+
+	public async removeBusyTimes(bucket: string, busyTimeIds: string[]): Promise<number> {
+		const keys = RedisStore.getKeys(bucket);
+		const entries = await this.redis.zrangeBuffer(keys.busyTimes, 0, -1);
+		const matchingEntries = entries.filter((value) => busyTimeIds.includes(decodeBusyTime(value).busyTimeId));
+
+		if (matchingEntries.length === 0) {
+			return 0;
+		}
+
+		const results = await this.redis
+			.multi()
+			.zrem(keys.busyTimes, ...matchingEntries)
+			.incr(keys.busyTimesRevision)
+			.exec();
+
+		if (!results) {
+			throw new Error("Failed to remove busy times");
+		}
+
+		const [[error, removed]] = results;
+
+		if (error) {
+			throw error;
+		}
+
+		return Number(removed);
+	}
+
+	public async cleanOldBusyTimes(bucket: string, beforeSeconds: number): Promise<void> {
+		const keys = RedisStore.getKeys(bucket);
+
+		await this.redis.zremrangebyscore(keys.busyTimes, 0, beforeSeconds);
+	}
+
+	public async getRules(bucket: string): Promise<StoredRules | null> {
+		const keys = RedisStore.getKeys(bucket);
+		const [version, rules] = await this.redis.hmget(keys.rules, "version", "rules");
+
+		if (version === null || rules === null) {
+			return null;
+		}
+
+		return { version: Number(version), rules: JSON.parse(rules) as Rule[] };
+	}
+
+	public async getRulesVersion(bucket: string): Promise<number | null> {
+		const keys = RedisStore.getKeys(bucket);
+		const version = await this.redis.hget(keys.rules, "version");
+
+		return version === null ? null : Number(version);
+	}
+
+	public async saveRules(bucket: string, rules: Rule[]): Promise<number> {
+		const keys = RedisStore.getKeys(bucket);
+		const results = await this.redis
+			.multi()
+			.hincrby(keys.rules, "version", 1)
+			.hset(keys.rules, "rules", JSON.stringify(rules))
+			.exec();
+
+		if (!results) {
+			throw new Error("Failed to save rules");
+		}
+
+		const [[error, version]] = results;
+
+		if (error) {
+			throw error;
+		}
+
+		return Number(version);
+	}
+
+	public async getDemandProfile(bucket: string): Promise<StoredDemandProfile | null> {
+		const keys = RedisStore.getKeys(bucket);
+		const demandProfile = await this.redis.get(keys.demandProfile);
+
+		return demandProfile === null ? null : (JSON.parse(demandProfile) as StoredDemandProfile);
+	}
+
+	public async saveDemandProfile(bucket: string, demandProfile: StoredDemandProfile): Promise<void> {
+		const keys = RedisStore.getKeys(bucket);
+
+		await this.redis.set(keys.demandProfile, JSON.stringify(demandProfile));
+	}
+}
@@ -0,0 +1,10 @@
+export { MemoryStore } from "./MemoryStore";
+export { RedisStore } from "./RedisStore";
+export type {
+	BusyTimesSnapshot,
+	OrderReplacement,
+	PacingStore,
+	Retention,
+	StoredDemandProfile,
+	StoredRules,
+} from "./types";
@@ -0,0 +1,6 @@
+import { type BusyTime, BusyTimeKind } from "../engine/types";
+import { toSeconds } from "../utils";
+
+export function getBusyTimeScore(busyTime: BusyTime): number {
+	return busyTime.kind === BusyTimeKind.MANUAL ? toSeconds(busyTime.endTime) : busyTime.orderTimeSeconds;
+}
@@ -0,0 +1,160 @@
+import { createHash } from "node:crypto";
+
+export type RedisScript = {
+	lua: string;
+	sha: string;
+};
+
+function defineScript(lua: string): RedisScript {
+	return {
+		lua,
+		sha: createHash("sha1").update(lua).digest("hex"),
+	};
+}
+
+/**
+ * Inserts an order unless an order with the same ID is already stored.
+ *
+ * KEYS: orders, order ids
+ * ARGV: orders cutoff, orders TTL, order score, order member, order id,
+ *       window start and window end (empty to skip reading the window)
+ *
+ * Returns the orders that were in the window before the insert, so each order is evaluated against exactly the
+ * orders added before it. Returns 0 without writing anything when the order ID already exists.
+ */
+export const ADD_ORDER_SCRIPT = defineScript(`
+redis.call("ZREMRANGEBYSCORE", KEYS[1], 0, ARGV[1])
+redis.call("ZREMRANGEBYSCORE", KEYS[2], 0, ARGV[1])
+
+if redis.call("ZSCORE", KEYS[2], ARGV[5]) then
+	return 0
+end
+
+local orders = {}
+
+if ARGV[6] ~= "" then
+	orders = redis.call("ZRANGEBYSCORE", KEYS[1], ARGV[6], ARGV[7])
+end
+
+redis.call("ZADD", KEYS[1], ARGV[3], ARGV[4])
+redis.call("ZADD", KEYS[2], ARGV[3], ARGV[5])
+
+redis.call("EXPIRE", KEYS[1], ARGV[2])
+redis.call("EXPIRE", KEYS[2], ARGV[2])
+
+return orders
+`);
+
+/**
+ * Replaces the stored entries of an order with its new version, or inserts it when it is not stored.
+ *
+ * KEYS: orders, order ids
+ * ARGV: orders cutoff, orders TTL, order score, order member, order id,
+ *       window start and window end (empty to skip reading the window), followed by the replaced members
+ *
+ * Returns the other orders in the window. Returns 0 without writing anything when the stored entries changed since
+ * they were looked up.
+ */
+export const REPLACE_ORDER_SCRIPT = defineScript(`
+redis.call("ZREMRANGEBYSCORE", KEYS[1], 0, ARGV[1])
+redis.call("ZREMRANGEBYSCORE", KEYS[2], 0, ARGV[1])
+
+local replacedCount = #ARGV - 7
+
+if replacedCount == 0 then
+	if redis.call("ZSCORE", KEYS[2], ARGV[5]) then
+		return 0
+	end
+else
+	for i = 8, #ARGV do
+		if redis.call("ZSCORE", KEYS[1], ARGV[i]) == false then
+			return 0
+		end
+	end
+
+	for i = 8, #ARGV do
+		redis.call("ZREM", KEYS[1], ARGV[i])
+	end
+end
+
+local orders = {}
+
+if ARGV[6] ~= "" then
+	orders = redis.call("ZRANGEBYSCORE", KEYS[1], ARGV[6], ARGV[7])
+end
+
+redis.call("ZADD", KEYS[1], ARGV[3], ARGV[4])
+redis.call("ZADD", KEYS[2], ARGV[3], ARGV[5])
+
+redis.call("EXPIRE", KEYS[1], ARGV[2])
+redis.call("EXPIRE", KEYS[2], ARGV[2])
+
+return orders
+`);
+
+// Keeps the busy times until the retention has passed after the latest score, as manual and scheduled busy times are
+// scored in the future, and never shortens the current TTL. Expects the cutoff and retention locals.
+const EXTEND_BUSY_TIMES_EXPIRY = `
+local ttl = math.max(tonumber(retention), redis.call("TTL", KEYS[1]))
+local latest = redis.call("ZREVRANGE", KEYS[1], 0, 0, "WITHSCORES")
+
+if latest[2] then
+	ttl = math.max(ttl, math.ceil(tonumber(latest[2]) - tonumber(cutoff)))
+end
+
+redis.call("EXPIRE", KEYS[1], ttl)
+redis.call("EXPIRE", KEYS[2], ttl)
+`;
+
+/**
+ * Adds busy times and bumps the busy times revision.
+ *
+ * KEYS: busy times, busy times revision
+ * ARGV: busy times cutoff, busy times retention, followed by score and member pairs to add
+ */
+export const ADD_BUSY_TIMES_SCRIPT = defineScript(`
+redis.call("ZREMRANGEBYSCORE", KEYS[1], 0, ARGV[1])
+
+for i = 3, #ARGV, 2 do
+	redis.call("ZADD", KEYS[1], ARGV[i], ARGV[i + 1])
+end
+
+redis.call("INCR", KEYS[2])
+
+local cutoff, retention = ARGV[1], ARGV[2]
+${EXTEND_BUSY_TIMES_EXPIRY}
+return 1
+`);
+
+/**
+ * Removes and adds busy times unless the busy times changed since they were read.
+ *
+ * KEYS: busy times, busy times revision
+ * ARGV: expected revision, busy times cutoff, busy times retention, removed members count, removed members,
+ *       followed by score and member pairs to add
+ *
+ * Returns 1 when the busy times were written, 0 when the revision no longer matches.
+ */
+export const COMMIT_BUSY_TIMES_SCRIPT = defineScript(`
+if tonumber(redis.call("GET", KEYS[2]) or "0") ~= tonumber(ARGV[1]) then
+	return 0
+end
+
+redis.call("ZREMRANGEBYSCORE", KEYS[1], 0, ARGV[2])
+
+local removedCount = tonumber(ARGV[4])
+
+for i = 5, 4 + removedCount do
+	redis.call("ZREM", KEYS[1], ARGV[i])
+end
+
+for i = 5 + removedCount, #ARGV, 2 do
+	redis.call("ZADD", KEYS[1], ARGV[i], ARGV[i + 1])
+end
+
+redis.call("INCR", KEYS[2])
+
+local cutoff, retention = ARGV[2], ARGV[3]
+${EXTEND_BUSY_TIMES_EXPIRY}
+return 1
+`);
@@ -0,0 +1,62 @@
+import type { BusyTime, DemandProfile, Order, TimeWindow } from "../engine/types";
+import type { Rule } from "../rules/types";
+
+export interface Retention {
+	currentTimeSeconds: number;
+	ordersRetentionSeconds: number;
+	busyTimesRetentionSeconds: number;
+}
+
+export interface OrderReplacement {
+	replaced: boolean;
+	orders: Order[];
+}
+
+export interface BusyTimesSnapshot {
+	busyTimes: BusyTime[];
+	revision: number;
+}
+
+export interface StoredRules {
+	version: number;
+	rules: Rule[];
+}
+
+export interface StoredDemandProfile {
+	profile: DemandProfile;
+	ruleProfiles: Record<string, DemandProfile>;
+	builtAtSeconds: number;
+	slotMinutes: number;
+	smoothing: number;
+	timeZone: string;
+}
+
+export interface PacingStore {
+	addOrder(bucket: string, order: Order, timeWindow: TimeWindow | null, retention: Retention): Promise<Order[] | null>;
+	replaceOrder(
+		bucket: string,
+		order: Order,
+		timeWindow: TimeWindow | null,
+		retention: Retention,
+	): Promise<OrderReplacement>;
+	getOrders(bucket: string, timeWindow?: TimeWindow): Promise<Order[]>;
+	removeOrder(bucket: string, orderId: string): Promise<boolean>;
+	cleanOldOrders(bucket: string, beforeSeconds: number): Promise<void>;
+	addBusyTimes(bucket: string, busyTimes: BusyTime[], retention: Retention): Promise<void>;
+	getBusyTimes(bucket: string): Promise<BusyTime[]>;
+	getBusyTimesSnapshot(bucket: string): Promise<BusyTimesSnapshot>;
+	commitBusyTimes(
+		bucket: string,
+		revision: number,
+		removedBusyTimeIds: string[],
+		busyTimes: BusyTime[],
+		retention: Retention,
+	): Promise<boolean>;
+	removeBusyTimes(bucket: string, busyTimeIds: string[]): Promise<number>;
+	cleanOldBusyTimes(bucket: string, beforeSeconds: number): Promise<void>;
+	getRules(bucket: string): Promise<StoredRules | null>;
+	getRulesVersion(bucket: string): Promise<number | null>;
+	saveRules(bucket: string, rules: Rule[]): Promise<number>;
+	getDemandProfile(bucket: string): Promise<StoredDemandProfile | null>;
+	saveDemandProfile(bucket: string, demandProfile: StoredDemandProfile): Promise<void>;
+}
@@ -1,8 +1,8 @@
 import { expect } from "chai";
 import { describe, it } from "mocha";
 import { decodeBusyTime, decodeOrder, encodeBusyTime, encodeOrder } from "../src/encoder";
-import type { BusyTime, Order } from "../src/engine/types";
-import { OrderSource } from "../src/engine/types";
+import type { ManualBusyTime, Order, RuleBusyTime } from "../src/engine/types";
+import { BusyTimeKind, OrderSource } from "../src/engine/types";
 
 function generateOrderTestCases(): Order[] {
 	const baseDate = new Date("2024-01-01T12:00:00Z");
@@ -22,6 +22,7 @@ function generateOrderTestCases(): Order[] {
 			totalAmountCents: 2100,
 			source: OrderSource.PERDIEM,
 			orderTime: baseDate,
+			placedAt: baseDate,
 			orderTimeSeconds: baseTimeSeconds,
 			currentTimeSeconds: baseTimeSeconds,
 		},
@@ -38,6 +39,7 @@ function generateOrderTestCases(): Order[] {
 			totalAmountCents: 1000,
 			source: OrderSource.PERDIEM,
 			orderTime: baseDate,
+			placedAt: baseDate,
 			orderTimeSeconds: baseTimeSeconds,
 			currentTimeSeconds: baseTimeSeconds,
 		},
@@ -60,6 +62,7 @@ function generateOrderTestCases(): Order[] {
 			totalAmountCents: 5500,
 			source: OrderSource.OTHER,
 			orderTime: baseDate,
+			placedAt: baseDate,
 			orderTimeSeconds: baseTimeSeconds,
 			currentTimeSeconds: baseTimeSeconds,
 		},
@@ -82,6 +85,7 @@ function generateOrderTestCases(): Order[] {
 			totalAmountCents: 13595,
 			source: OrderSource.PERDIEM,
 			orderTime: baseDate,
+			placedAt: baseDate,
 			orderTimeSeconds: baseTimeSeconds,
 			currentTimeSeconds: baseTimeSeconds,
 		},
@@ -91,6 +95,7 @@ function generateOrderTestCases(): Order[] {
 			totalAmountCents: 0,
 			source: OrderSource.PERDIEM,
 			orderTime: baseDate,
+			placedAt: baseDate,
 			orderTimeSeconds: baseTimeSeconds,
 			currentTimeSeconds: baseTimeSeconds,
 		},
@@ -107,6 +112,7 @@ function generateOrderTestCases(): Order[] {
 			totalAmountCents: 100000,
 			source: OrderSource.OTHER,
 			orderTime: new Date("2024-06-15T14:30:00Z"),
+			placedAt: new Date("2024-06-15T09:00:00Z"),
 			orderTimeSeconds: 1718464200,
 			currentTimeSeconds: 1718464200,
 		},
@@ -123,117 +129,170 @@ function generateOrderTestCases(): Order[] {
 			totalAmountCents: 0,
 			source: OrderSource.PERDIEM,
 			orderTime: baseDate,
+			placedAt: baseDate,
 			orderTimeSeconds: 0,
 			currentTimeSeconds: 0,
 		},
+		...[
+			OrderSource.KIOSK,
+			OrderSource.POS,
+			OrderSource.PHONE,
+			OrderSource.DOORDASH,
+			OrderSource.UBER_EATS,
+			OrderSource.GRUBHUB,
+		].map((source, index) => ({
+			orderId: `order-${8 + index}`,
+			items: [],
+			totalAmountCents: 1500,
+			source,
+			orderTime: baseDate,
+			placedAt: baseDate,
+			orderTimeSeconds: baseTimeSeconds,
+			currentTimeSeconds: baseTimeSeconds,
+		})),
 	];
 }
 
-function generateBusyTimeTestCases(): BusyTime[] {
+function generateBusyTimeTestCases(): RuleBusyTime[] {
 	return [
 		{
 			busyTimeId: "busy-1",
+			kind: BusyTimeKind.RULE,
 			ruleId: "rule-1",
+			ruleVersion: 1,
+			orderId: "order-1",
 			startTime: new Date("2024-01-01T12:00:00Z"),
 			endTime: new Date("2024-01-01T12:15:00Z"),
 			orderTimeSeconds: 1704110400,
 			currentTimeSeconds: 1704110400,
 			busyTimeSeconds: 900,
+			resource: "grill",
 			busyTimeContext: {
 				totalAmountCents: 5000,
 				totalItems: 10,
 				totalOrders: 2,
+				totalLoad: 2,
 				categoryIds: ["cat-1"],
+				expectedOrders: 3,
 			},
 			threshold: {
 				type: "items",
 				value: 10,
 				limit: 5,
 				categoryIds: ["cat-1"],
+				tier: 0,
 			},
 		},
 		{
 			busyTimeId: "busy-2",
+			kind: BusyTimeKind.RULE,
 			ruleId: "rule-2",
+			ruleVersion: 2,
+			orderId: "order-2",
 			startTime: new Date(0),
 			endTime: new Date(0),
 			orderTimeSeconds: 0,
 			currentTimeSeconds: 0,
 			busyTimeSeconds: 0,
+			resource: null,
 			busyTimeContext: {
 				totalAmountCents: 0,
 				totalItems: 0,
 				totalOrders: 0,
+				totalLoad: 0,
 				categoryIds: [],
+				expectedOrders: 0,
 			},
 			threshold: {
 				type: "orders",
 				value: 0,
 				limit: 0,
 				categoryIds: [],
+				tier: 0,
 			},
 		},
 		{
 			busyTimeId: "busy-3",
+			kind: BusyTimeKind.RULE,
 			ruleId: "rule-3",
+			ruleVersion: 3,
+			orderId: "order-3",
 			startTime: new Date("2024-06-15T14:25:00Z"),
 			endTime: new Date("2024-06-15T14:40:00Z"),
 			orderTimeSeconds: 1718464200,
 			currentTimeSeconds: 1718463900,
 			busyTimeSeconds: 1800,
+			resource: null,
 			busyTimeContext: {
 				totalAmountCents: 50000,
 				totalItems: 20,
 				totalOrders: 5,
+				totalLoad: 5,
 				categoryIds: ["cat-1", "cat-2"],
+				expectedOrders: 0,
 			},
 			threshold: {
 				type: "orders",
 				value: 5,
 				limit: 3,
 				categoryIds: ["cat-1", "cat-2"],
+				tier: 2,
 			},
 		},
 		{
 			busyTimeId: "busy-4",
+			kind: BusyTimeKind.RULE,
 			ruleId: "rule-4",
+			ruleVersion: 4,
+			orderId: "order-4",
 			startTime: new Date("2024-06-15T14:25:00Z"),
 			endTime: new Date("2024-06-15T14:40:00Z"),
 			orderTimeSeconds: 1718464200,
 			currentTimeSeconds: 1718463900,
 			busyTimeSeconds: 1800,
+			resource: null,
 			busyTimeContext: {
 				totalAmountCents: 50000,
 				totalItems: 20,
 				totalOrders: 5,
+				totalLoad: 5,
 				categoryIds: ["cat-1", "cat-2"],
+				expectedOrders: 0,
 			},
 			threshold: {
 				type: "amount",
 				value: 50000,
 				limit: 40000,
 				categoryIds: ["cat-1", "cat-2"],
+				tier: 0,
 			},
 		},
 		{
 			busyTimeId: "busy-5",
+			kind: BusyTimeKind.RULE,
 			ruleId: "rule-5",
+			ruleVersion: 5,
+			orderId: "order-5",
 			startTime: new Date("2024-01-01T12:00:00Z"),
 			endTime: new Date("2024-01-01T12:15:00Z"),
 			orderTimeSeconds: 1704110400,
 			currentTimeSeconds: 1704110400,
 			busyTimeSeconds: 900,
+			resource: null,
 			busyTimeContext: {
 				totalAmountCents: 5000,
 				totalItems: 10,
 				totalOrders: 2,
+				totalLoad: 2,
 				categoryIds: [],
+				expectedOrders: 0,
 			},
 			threshold: {
 				type: "items",
 				value: 10,
 				limit: 5,
 				categoryIds: [],
+				tier: 0,
 			},
 		},
 	];
@@ -251,6 +310,7 @@ describe("encodeOrder / decodeOrder", () => {
 			expect(decoded.totalAmountCents).to.equal(order.totalAmountCents);
 			expect(decoded.source).to.equal(order.source);
 			expect(decoded.orderTime.getTime()).to.equal(order.orderTime.getTime());
+			expect(decoded.placedAt.getTime()).to.equal(order.placedAt.getTime());
 			expect(decoded.orderTimeSeconds).to.equal(order.orderTimeSeconds);
 			expect(decoded.currentTimeSeconds).to.equal(order.currentTimeSeconds);
 		});
@@ -262,15 +322,38 @@ describe("encodeBusyTime / decodeBusyTime", () => {
 
 	testCases.forEach((busyTime, index) => {
 		it(`should round-trip encode/decode busy time case ${index + 1}`, () => {
-			const decoded = decodeBusyTime(encodeBusyTime(busyTime));
+			const decoded = decodeBusyTime(encodeBusyTime(busyTime)) as RuleBusyTime;
 
+			expect(decoded.busyTimeId).to.equal(busyTime.busyTimeId);
+			expect(decoded.kind).to.equal(BusyTimeKind.RULE);
+			expect(decoded.ruleId).to.equal(busyTime.ruleId);
+			expect(decoded.orderId).to.equal(busyTime.orderId);
 			expect(decoded.startTime.getTime()).to.equal(busyTime.startTime.getTime());
 			expect(decoded.endTime.getTime()).to.equal(busyTime.endTime.getTime());
 			expect(decoded.orderTimeSeconds).to.equal(busyTime.orderTimeSeconds);
 			expect(decoded.currentTimeSeconds).to.equal(busyTime.currentTimeSeconds);
 			expect(decoded.busyTimeSeconds).to.equal(busyTime.busyTimeSeconds);
+			expect(decoded.resource).to.equal(busyTime.resource);
 			expect(decoded.busyTimeContext).to.deep.equal(busyTime.busyTimeContext);
 			expect(decoded.threshold).to.deep.equal(busyTime.threshold);
 		});
 	});
 });
+
+describe("encodeBusyTime / decodeBusyTime for manual busy times", () => {
+	it("should round-trip encode/decode a manual busy time", () => {
+		const busyTime: ManualBusyTime = {
+			busyTimeId: "busy-manual",
+			kind: BusyTimeKind.MANUAL,
+			startTime: new Date("2024-01-01T12:00:00Z"),
+			endTime: new Date("2024-01-01T18:00:00Z"),
+			currentTimeSeconds: 1704110400,
+			busyTimeSeconds: 21600,
+			resource: null,
+			reason: "Kitchen is swamped",
+			createdBy: "manager-1",
+		};
+
+		expect(decodeBusyTime(encodeBusyTime(busyTime))).to.deep.equal(busyTime);
+	});
+});
@@ -0,0 +1,1389 @@
+import { expect } from "chai";
+import type Redis from "ioredis";
+import RedisMock from "ioredis-mock";
+import { beforeEach, describe, it } from "mocha";
+import { encodeOrder } from "../src/encoder";
+import { Engine } from "../src/engine";
+import type { BusyTime, EngineEvent, InputOrder } from "../src/engine/types";
+import { BusyTimeKind, BusyTimeStrategy, EngineEventType, OrderCountMode, OrderSource } from "../src/engine/types";
+import { RedisPublisher, RedisPublisherMode } from "../src/events";
+import { RuleValidationError, RuleValidationErrorCode } from "../src/rules";
+import type { Rule } from "../src/rules/types";
+import { MemoryStore, type PacingStore, RedisStore } from "../src/store";
+
+const redis = new RedisMock() as unknown as Redis;
+
+const stores: { name: string; createStore: () => PacingStore }[] = [
+	{ name: "RedisStore", createStore: () => new RedisStore(redis) },
+	{ name: "MemoryStore", createStore: () => new MemoryStore() },
+];
+
+const rule: Rule = {
+	ruleId: "rule-1",
+	timeFrameMinutes: 30,
+	busyTimeMinutes: 15,
+	categoryIds: [],
+	weekDays: [],
+	maxOrders: 2,
+};
+
+function createOrder(orderId: string, overrides: Partial<InputOrder> = {}): InputOrder {
+	return {
+		orderId,
+		items: [
+			{
+				itemId: "item-1",
+				quantity: 1,
+				totalAmountCents: 1000,
+				categoryId: "cat-1",
+			},
+		],
+		totalAmountCents: 1000,
+		source: OrderSource.PERDIEM,
+		orderTime: new Date(),
+		...overrides,
+	};
+}
+
+for (const { name, createStore } of stores) {
+	describe(`Engine with ${name}`, () => {
+		let store: PacingStore;
+		let engine: Engine;
+
+		beforeEach(async () => {
+			await redis.flushall();
+
+			store = createStore();
+			engine = new Engine({ bucket: "store:location", store, rules: [rule] });
+		});
+
+		describe("add", () => {
+			it("should create a busy time when a threshold is reached", async () => {
+				await engine.add(createOrder("order-1"));
+				expect(await engine.getBusyTimes()).to.have.length(0);
+
+				await engine.add(createOrder("order-2"));
+
+				const busyTimes = await engine.getBusyTimes();
+
+				expect(busyTimes).to.have.length(1);
+				expect(busyTimes[0].ruleId).to.equal("rule-1");
+				expect(busyTimes[0].orderId).to.equal("order-2");
+				expect(busyTimes[0].threshold.type).to.equal("orders");
+			});
+
+			it("should ignore a replayed order with the same orderId", async () => {
+				await engine.add(createOrder("order-1"));
+				await engine.add(createOrder("order-2"));
+				await engine.add(createOrder("order-2"));
+
+				expect(await engine.getOrders()).to.have.length(2);
+				expect(await engine.getBusyTimes()).to.have.length(1);
+			});
+
+			it("should see concurrently added orders when evaluating rules", async () => {
+				await Promise.all([engine.add(createOrder("order-1")), engine.add(createOrder("order-2"))]);
+
+				expect(await engine.getOrders()).to.have.length(2);
+				expect(await engine.getBusyTimes()).to.have.length(1);
+			});
+
+			it("should store every order when many are added concurrently", async () => {
+				const orderIds = Array.from({ length: 10 }, (_, index) => `order-${index + 1}`);
+
+				await Promise.all(orderIds.map((orderId) => engine.add(createOrder(orderId))));
+
+				expect(await engine.getOrders()).to.have.length(10);
+				expect(await engine.getBusyTimes()).to.have.length(9);
+			});
+		});
+
+		describe("scheduled orders", () => {
+			const minutes = (count: number) => count * 60 * 1000;
+
+			it("should place the busy time at the fulfilment time", async () => {
+				const placedAt = new Date(Math.floor(Date.now() / 1000) * 1000);
+				const fulfillAt = new Date(placedAt.getTime() + minutes(6 * 60));
+
+				for (const orderId of ["order-1", "order-2"]) {
+					const { orderTime: _, ...scheduledOrder } = createOrder(orderId);
+
+					await engine.add({ ...scheduledOrder, placedAt, fulfillAt });
+				}
+
+				const [busyTime] = await engine.getBusyTimes();
+				const [order] = await engine.getOrders();
+
+				expect(order.orderTime.getTime()).to.equal(fulfillAt.getTime());
+				expect(order.placedAt.getTime()).to.equal(placedAt.getTime());
+				expect(busyTime.startTime.getTime()).to.equal(fulfillAt.getTime());
+				expect(busyTime.endTime.getTime()).to.equal(fulfillAt.getTime() + minutes(15));
+				expect((await engine.validateOrderTime(placedAt)).waitPeriodSeconds).to.equal(0);
+				expect((await engine.validateOrderTime(fulfillAt)).waitPeriodSeconds).to.be.greaterThan(0);
+			});
+
+			it("should not count scheduled orders toward other time slots", async () => {
+				const fulfillAt = new Date(Date.now() + minutes(6 * 60));
+
+				await engine.add(createOrder("order-1", { fulfillAt }));
+
+				const { exceeded } = await engine.checkOrder(createOrder("order-2"));
+
+				expect(exceeded).to.equal(false);
+			});
+
+			it("should reject a fulfilment time before the placement time", async () => {
+				try {
+					await engine.add(
+						createOrder("order-1", { placedAt: new Date(), fulfillAt: new Date(Date.now() - minutes(60)) }),
+					);
+					expect.fail("Expected add to throw");
+				} catch (error) {
+					expect((error as Error).message).to.equal("fulfillAt must not be before placedAt for order order-1");
+				}
+			});
+		});
+
+		describe("checkOrder", () => {
+			it("should report the rules the order would exceed without storing it", async () => {
+				await engine.add(createOrder("order-1"));
+
+				const check = await engine.checkOrder(createOrder("order-2"));
+
+				expect(check.exceeded).to.equal(true);
+				expect(check.rules).to.have.length(1);
+				expect(check.rules[0].threshold).to.include({ type: "orders", value: 2, limit: 2 });
+				expect(check.rules[0].exceededBy).to.equal(0);
+				expect(await engine.getOrders()).to.have.length(1);
+				expect(await engine.getBusyTimes()).to.have.length(0);
+			});
+
+			it("should not count a stored order with the same orderId twice", async () => {
+				await engine.add(createOrder("order-1"));
+
+				const check = await engine.checkOrder(createOrder("order-1"));
+
+				expect(check.exceeded).to.equal(false);
+				expect(check.rules[0].totals.orders).to.equal(1);
+			});
+		});
+
+		describe("removeOrder", () => {
+			it("should remove the order and retract the busy time it triggered", async () => {
+				await engine.add(createOrder("order-1"));
+				await engine.add(createOrder("order-2"));
+
+				expect(await engine.removeOrder("order-2")).to.equal(true);
+
+				const orders = await engine.getOrders();
+
+				expect(orders.map((order) => order.orderId)).to.deep.equal(["order-1"]);
+				expect(await engine.getBusyTimes()).to.have.length(0);
+			});
+
+			it("should keep the busy time when the rule is still exceeded without the order", async () => {
+				await engine.add(createOrder("order-1"));
+				await engine.add(createOrder("order-2"));
+				await engine.add(createOrder("order-3"));
+
+				await engine.removeOrder("order-2");
+
+				const busyTimes = await engine.getBusyTimes();
+
+				expect(busyTimes.map((busyTime) => busyTime.orderId)).to.have.members(["order-2", "order-3"]);
+			});
+
+			it("should return false for an unknown order", async () => {
+				expect(await engine.removeOrder("missing")).to.equal(false);
+			});
+		});
+
+		describe("updateOrder", () => {
+			it("should replace the stored order", async () => {
+				await engine.add(createOrder("order-1"));
+				await engine.updateOrder(createOrder("order-1", { totalAmountCents: 2500 }));
+
+				const orders = await engine.getOrders();
+
+				expect(orders).to.have.length(1);
+				expect(orders[0].totalAmountCents).to.equal(2500);
+			});
+
+			it("should keep the stored order when the update is invalid", async () => {
+				await engine.add(createOrder("order-1"));
+
+				try {
+					await engine.updateOrder(
+						createOrder("order-1", { placedAt: new Date(), fulfillAt: new Date(Date.now() - 60 * 60 * 1000) }),
+					);
+					expect.fail("Expected updateOrder to throw");
+				} catch (error) {
+					expect((error as Error).message).to.equal("fulfillAt must not be before placedAt for order order-1");
+				}
+
+				const orders = await engine.getOrders();
+
+				expect(orders.map((order) => order.orderId)).to.deep.equal(["order-1"]);
+			});
+
+			it("should not add busy times when an order in an exceeded window is updated repeatedly", async () => {
+				for (const orderId of ["order-1", "order-2", "order-3"]) {
+					await engine.add(createOrder(orderId));
+				}
+
+				await engine.updateOrder(createOrder("order-3", { totalAmountCents: 2500 }));
+				await engine.updateOrder(createOrder("order-3", { totalAmountCents: 3000 }));
+
+				const busyTimes = await engine.getBusyTimes();
+
+				expect(busyTimes.map((busyTime) => busyTime.orderId)).to.have.members(["order-2", "order-3"]);
+			});
+
+			it("should replace the busy time triggered by the order", async () => {
+				await engine.add(createOrder("order-1"));
+				await engine.add(createOrder("order-2"));
+				await engine.updateOrder(createOrder("order-2", { totalAmountCents: 2500 }));
+
+				const busyTimes = await engine.getBusyTimes();
+
+				expect(busyTimes.map((busyTime) => busyTime.orderId)).to.deep.equal(["order-2"]);
+			});
+		});
+
+		describe("sources", () => {
+			it("should only count PERDIEM orders by default", async () => {
+				await engine.add(createOrder("order-1", { source: OrderSource.DOORDASH }));
+				await engine.add(createOrder("order-2"));
+
+				expect(await engine.getBusyTimes()).to.have.length(0);
+			});
+
+			it("should count orders from the rule sources toward capacity", async () => {
+				engine = new Engine({
+					bucket: "store:location",
+					store,
+					rules: [{ ...rule, sources: [OrderSource.PERDIEM, OrderSource.DOORDASH] }],
+				});
+
+				await engine.add(createOrder("order-1", { source: OrderSource.DOORDASH }));
+				await engine.add(createOrder("order-2"));
+
+				const busyTimes = await engine.getBusyTimes();
+
+				expect(busyTimes).to.have.length(1);
+				expect(busyTimes[0].busyTimeContext.totalOrders).to.equal(2);
+			});
+
+			it("should only create busy times for orders from the throttle sources", async () => {
+				engine = new Engine({
+					bucket: "store:location",
+					store,
+					rules: [
+						{
+							...rule,
+							sources: [OrderSource.PERDIEM, OrderSource.DOORDASH],
+							throttleSources: [OrderSource.PERDIEM],
+						},
+					],
+				});
+
+				await engine.add(createOrder("order-1"));
+				await engine.add(createOrder("order-2", { source: OrderSource.DOORDASH }));
+
+				expect(await engine.getBusyTimes()).to.have.length(0);
+			});
+
+			it("should apply source weights to the thresholds", async () => {
+				engine = new Engine({
+					bucket: "store:location",
+					store,
+					rules: [
+						{ ...rule, sources: [OrderSource.PERDIEM, OrderSource.KIOSK], sourceWeights: { [OrderSource.KIOSK]: 0.5 } },
+					],
+				});
+
+				await engine.add(createOrder("order-1", { source: OrderSource.KIOSK }));
+				await engine.add(createOrder("order-2"));
+
+				expect(await engine.getBusyTimes()).to.have.length(0);
+
+				await engine.add(createOrder("order-3", { source: OrderSource.KIOSK }));
+
+				const busyTimes = await engine.getBusyTimes();
+
+				expect(busyTimes).to.have.length(1);
+				expect(busyTimes[0].threshold.value).to.equal(2);
+			});
+		});
+
+		describe("manual busy times", () => {
+			it("should store a manual busy time that is honoured by validateOrderTime", async () => {
+				const startTime = new Date();
+				const endTime = new Date(startTime.getTime() + 20 * 60 * 1000);
+
+				const busyTime = await engine.addManualBusyTime({
+					startTime,
+					endTime,
+					reason: "Kitchen is swamped",
+					createdBy: "manager-1",
+				});
+
+				const busyTimes = await engine.getBusyTimes();
+
+				expect(busyTimes).to.have.length(1);
+				expect(busyTimes[0]).to.include({
+					busyTimeId: busyTime.busyTimeId,
+					kind: BusyTimeKind.MANUAL,
+					reason: "Kitchen is swamped",
+					createdBy: "manager-1",
+				});
+
+				const { waitPeriodSeconds } = await engine.validateOrderTime(startTime);
+
+				expect(waitPeriodSeconds).to.be.greaterThan(19 * 60);
+			});
+
+			it("should remove a busy time by id", async () => {
+				const busyTime = await engine.addManualBusyTime({
+					endTime: new Date(Date.now() + 20 * 60 * 1000),
+					reason: "Pause",
+					createdBy: "manager-1",
+				});
+
+				expect(await engine.removeBusyTime(busyTime.busyTimeId)).to.equal(true);
+				expect(await engine.removeBusyTime(busyTime.busyTimeId)).to.equal(false);
+				expect(await engine.getBusyTimes()).to.have.length(0);
+			});
+
+			it("should reject an end time before the start time", async () => {
+				const startTime = new Date();
+
+				try {
+					await engine.addManualBusyTime({ startTime, endTime: startTime, reason: "Pause", createdBy: "manager-1" });
+					expect.fail("addManualBusyTime should have thrown");
+				} catch (error) {
+					expect((error as Error).message).to.equal("endTime must be after startTime");
+				}
+			});
+		});
+
+		describe("validateOrderTime", () => {
+			it("should explain the wait with the matched busy times and rule counts", async () => {
+				const orderTime = new Date(Math.floor(Date.now() / 1000) * 1000);
+
+				await engine.add(createOrder("order-1", { orderTime }));
+				await engine.add(createOrder("order-2", { orderTime }));
+
+				const validation = await engine.validateOrderTime(orderTime);
+
+				expect(validation.waitPeriodSeconds).to.be.greaterThan(0);
+				expect(validation.ordersInWindow).to.equal(2);
+				expect(validation.busyTimes).to.have.length(1);
+				expect(validation.busyTimes[0]).to.include({ ruleId: "rule-1", orderId: "order-2" });
+				expect(validation.rules).to.have.length(1);
+				expect(validation.rules[0].ruleId).to.equal("rule-1");
+				expect(validation.rules[0].totals).to.deep.equal({
+					orders: 2,
+					items: 2,
+					amountCents: 2000,
+					load: 2,
+					concurrentLoad: 2,
+				});
+				expect(validation.rules[0].threshold).to.include({ type: "orders", value: 2, limit: 2 });
+			});
+
+			it("should look past busy times that ended before the order time", async () => {
+				const now = Math.floor(Date.now() / 1000) * 1000;
+				const minutes = (count: number) => new Date(now + count * 60 * 1000);
+
+				await engine.addManualBusyTime({
+					startTime: minutes(10),
+					endTime: minutes(20),
+					reason: "Pause",
+					createdBy: "manager-1",
+				});
+				await engine.addManualBusyTime({
+					startTime: minutes(60),
+					endTime: minutes(80),
+					reason: "Pause",
+					createdBy: "manager-1",
+				});
+
+				const validation = await engine.validateOrderTime(minutes(65));
+
+				expect(validation.waitPeriodSeconds).to.equal(15 * 60 + 1);
+				expect(validation.busyTimes).to.have.length(1);
+			});
+		});
+
+		describe("getCapacity", () => {
+			it("should return the remaining capacity of each active rule", async () => {
+				engine = new Engine({
+					bucket: "store:location",
+					store,
+					rules: [{ ...rule, maxOrders: 5, maxAmountCents: 10000 }],
+				});
+
+				const time = new Date(Math.floor(Date.now() / 1000) * 1000);
+
+				await engine.add(createOrder("order-1", { orderTime: time }));
+				await engine.add(createOrder("order-2", { orderTime: time, totalAmountCents: 2500 }));
+
+				const capacity = await engine.getCapacity(time);
+
+				expect(capacity).to.have.length(1);
+				expect(capacity[0].ruleId).to.equal("rule-1");
+				expect(capacity[0].totals).to.deep.equal({
+					orders: 2,
+					items: 2,
+					amountCents: 3500,
+					load: 2,
+					concurrentLoad: 2,
+				});
+				expect(capacity[0].remaining).to.deep.equal({
+					orders: 3,
+					items: null,
+					amountCents: 6500,
+					load: null,
+					concurrentLoad: null,
+				});
+			});
+		});
+
+		describe("schedules", () => {
+			// 2024-01-05 is a Friday
+			const isActiveAt = async (scheduledRule: Rule, time: string, timeZone = "UTC") => {
+				engine = new Engine({ bucket: "store:location", store, rules: [scheduledRule], timeZone });
+
+				return (await engine.getCapacity(new Date(time))).length > 0;
+			};
+
+			it("should apply an overnight rule on the day the segment starts", async () => {
+				const overnightRule = { ...rule, startTime: "22:00", endTime: "02:00", weekDays: [5] };
+
+				expect(await isActiveAt(overnightRule, "2024-01-05T23:30:00Z")).to.equal(true);
+				expect(await isActiveAt(overnightRule, "2024-01-06T01:30:00Z")).to.equal(true);
+				expect(await isActiveAt(overnightRule, "2024-01-06T03:00:00Z")).to.equal(false);
+				expect(await isActiveAt(overnightRule, "2024-01-05T01:30:00Z")).to.equal(false);
+			});
+
+			it("should apply a rule during any of its time segments", async () => {
+				const segmentedRule = {
+					...rule,
+					timeSegments: [
+						{ startTime: "11:00", endTime: "14:00" },
+						{ startTime: "18:00", endTime: "22:00" },
+					],
+				};
+
+				expect(await isActiveAt(segmentedRule, "2024-01-05T12:00:00Z")).to.equal(true);
+				expect(await isActiveAt(segmentedRule, "2024-01-05T16:00:00Z")).to.equal(false);
+				expect(await isActiveAt(segmentedRule, "2024-01-05T19:00:00Z")).to.equal(true);
+			});
+
+			it("should apply a rule only between its effective dates in the engine time zone", async () => {
+				const seasonalRule = { ...rule, effectiveFrom: "2024-01-05", effectiveTo: "2024-01-06" };
+
+				expect(await isActiveAt(seasonalRule, "2024-01-05T12:00:00Z")).to.equal(true);
+				expect(await isActiveAt(seasonalRule, "2024-01-07T03:00:00Z")).to.equal(false);
+				expect(await isActiveAt(seasonalRule, "2024-01-07T03:00:00Z", "America/New_York")).to.equal(true);
+			});
+
+			it("should not apply a rule on its blackout dates", async () => {
+				const holidayRule = { ...rule, blackoutDates: [{ from: "2024-11-28", to: "2024-11-28" }] };
+
+				expect(await isActiveAt(holidayRule, "2024-11-28T12:00:00Z")).to.equal(false);
+				expect(await isActiveAt(holidayRule, "2024-11-29T12:00:00Z")).to.equal(true);
+			});
+
+			it("should reject overlapping blackout dates", () => {
+				expect(
+					() =>
+						new Engine({
+							bucket: "store:location",
+							store,
+							rules: [
+								{
+									...rule,
+									blackoutDates: [
+										{ from: "2024-12-24", to: "2024-12-26" },
+										{ from: "2024-12-26", to: "2024-12-31" },
+									],
+								},
+							],
+						}),
+				).to.throw("blackoutDates must not overlap");
+			});
+
+			it("should reject inverted effective dates", () => {
+				expect(
+					() =>
+						new Engine({
+							bucket: "store:location",
+							store,
+							rules: [{ ...rule, effectiveFrom: "2024-02-01", effectiveTo: "2024-01-01" }],
+						}),
+				).to.throw("effectiveFrom must not be after effectiveTo");
+			});
+
+			it("should reject time segments combined with startTime", () => {
+				expect(
+					() =>
+						new Engine({
+							bucket: "store:location",
+							store,
+							rules: [{ ...rule, startTime: "11:00", timeSegments: [{ startTime: "11:00", endTime: "14:00" }] }],
+						}),
+				).to.throw("timeSegments cannot be combined with startTime or endTime");
+			});
+		});
+
+		describe("rules versioning", () => {
+			it("should replace the rules with setRules", async () => {
+				engine.setRules([{ ...rule, maxOrders: 3 }]);
+
+				await engine.add(createOrder("order-1"));
+				await engine.add(createOrder("order-2"));
+				expect(await engine.getBusyTimes()).to.have.length(0);
+
+				await engine.add(createOrder("order-3"));
+
+				const busyTimes = await engine.getBusyTimes();
+
+				expect(engine.getRulesVersion()).to.equal(1);
+				expect(busyTimes).to.have.length(1);
+				expect(busyTimes[0].ruleVersion).to.equal(1);
+			});
+
+			it("should reject rules with duplicate ruleIds", () => {
+				expect(() => engine.setRules([rule, { ...rule, maxOrders: 3 }])).to.throw(
+					'ruleId must be unique, got duplicate: "rule-1"',
+				);
+			});
+
+			it("should load rules published by another engine on the same bucket", async () => {
+				const worker = new Engine({ bucket: "store:location", store, rules: [rule], syncRules: true });
+				const version = await engine.publishRules([{ ...rule, maxOrders: 1 }]);
+
+				await worker.add(createOrder("order-1"));
+
+				const busyTimes = await worker.getBusyTimes();
+
+				expect(worker.getRulesVersion()).to.equal(version);
+				expect(busyTimes).to.have.length(1);
+				expect(busyTimes[0].ruleVersion).to.equal(version);
+			});
+
+			it("should reject local rules on an engine that syncs rules", () => {
+				const worker = new Engine({ bucket: "store:location", store, rules: [rule], syncRules: true });
+
+				expect(() => worker.setRules([{ ...rule, maxOrders: 1 }])).to.throw(
+					"setRules is not available with syncRules, use publishRules instead",
+				);
+			});
+
+			it("should not publish invalid rules", async () => {
+				try {
+					await engine.publishRules([{ ...rule, timeFrameMinutes: 0 }]);
+					expect.fail("Expected publishRules to throw");
+				} catch (error) {
+					expect((error as Error).message).to.match(/timeFrameMinutes/);
+				}
+
+				expect(await store.getRules("store:location")).to.equal(null);
+			});
+
+			it("should not publish rules with duplicate ruleIds", async () => {
+				try {
+					await engine.publishRules([rule, { ...rule, maxOrders: 1 }]);
+					expect.fail("Expected publishRules to throw");
+				} catch (error) {
+					expect(error).to.be.instanceOf(RuleValidationError);
+					expect((error as RuleValidationError).code).to.equal(RuleValidationErrorCode.DUPLICATE);
+				}
+
+				expect(await store.getRules("store:location")).to.equal(null);
+			});
+
+			it("should not publish rules targeting an unknown resource", async () => {
+				try {
+					await engine.publishRules([{ ...rule, resource: "bakery" }]);
+					expect.fail("Expected publishRules to throw");
+				} catch (error) {
+					expect((error as Error).message).to.equal("Rule rule-1 targets unknown resource bakery");
+				}
+
+				expect(await store.getRules("store:location")).to.equal(null);
+			});
+		});
+
+		describe("getAvailableSlots", () => {
+			const minutes = (count: number) => count * 60 * 1000;
+
+			it("should skip slots covered by busy times or rules at capacity", async () => {
+				const now = new Date(Math.floor(Date.now() / 1000) * 1000);
+				const orderTime = new Date(now.getTime() + minutes(60));
+
+				await engine.add(createOrder("order-1", { orderTime }));
+				await engine.add(createOrder("order-2", { orderTime }));
+
+				const slots = await engine.getAvailableSlots(
+					new Date(now.getTime() + minutes(30)),
+					new Date(now.getTime() + minutes(120)),
+					15,
+				);
+
+				expect(slots.map((slot) => slot.startTime.getTime())).to.deep.equal([
+					now.getTime() + minutes(30),
+					now.getTime() + minutes(45),
+					now.getTime() + minutes(90),
+					now.getTime() + minutes(105),
+				]);
+				expect(slots[0].endTime.getTime()).to.equal(now.getTime() + minutes(45));
+			});
+
+			it("should suggest the next available time", async () => {
+				const now = new Date(Math.floor(Date.now() / 1000) * 1000);
+
+				await engine.addManualBusyTime({
+					startTime: now,
+					endTime: new Date(now.getTime() + minutes(20)),
+					reason: "Pause",
+					createdBy: "manager-1",
+				});
+
+				const suggestedTime = await engine.suggestNextAvailableTime(now);
+
+				expect(suggestedTime?.getTime()).to.equal(now.getTime() + minutes(25));
+			});
+		});
+
+		describe("tiers", () => {
+			it("should apply the busy time of the highest tier crossed", async () => {
+				engine = new Engine({
+					bucket: "store:location",
+					store,
+					rules: [
+						{
+							...rule,
+							tiers: [
+								{ maxOrders: 3, busyTimeMinutes: 20 },
+								{ maxOrders: 5, busyTimeMinutes: 40 },
+							],
+						},
+					],
+				});
+
+				for (const orderId of ["order-1", "order-2", "order-3"]) {
+					await engine.add(createOrder(orderId));
+				}
+
+				const busyTimes = await engine.getBusyTimes();
+				const lastBusyTime = busyTimes.find((busyTime) => busyTime.orderId === "order-3");
+
+				expect(busyTimes).to.have.length(2);
+				expect(lastBusyTime?.threshold.tier).to.equal(1);
+				expect(lastBusyTime?.threshold.limit).to.equal(3);
+				expect(lastBusyTime?.busyTimeSeconds).to.equal(20 * 60);
+			});
+		});
+
+		describe("categories", () => {
+			const coffee = { itemId: "coffee", quantity: 1, totalAmountCents: 300, categoryId: "beverages" };
+			const sandwich = { itemId: "sandwich", quantity: 2, totalAmountCents: 1800, categoryId: "sandwiches" };
+
+			it("should ignore items from excluded categories", async () => {
+				engine = new Engine({
+					bucket: "store:location",
+					store,
+					rules: [{ ...rule, excludeCategoryIds: ["beverages"] }],
+				});
+
+				await engine.add(createOrder("order-1", { items: [coffee] }));
+				await engine.add(createOrder("order-2", { items: [coffee] }));
+				expect(await engine.getBusyTimes()).to.have.length(0);
+
+				const { rules } = await engine.checkOrder(createOrder("order-3", { items: [coffee, sandwich] }));
+
+				expect(rules[0].totals).to.deep.equal({
+					orders: 1,
+					items: 2,
+					amountCents: 1800,
+					load: 2,
+					concurrentLoad: 2,
+				});
+			});
+
+			it("should count only the matching item quantities toward maxOrders", async () => {
+				engine = new Engine({
+					bucket: "store:location",
+					store,
+					rules: [
+						{ ...rule, categoryIds: ["sandwiches"], orderCountMode: OrderCountMode.MATCHING_ITEMS, maxOrders: 3 },
+					],
+				});
+
+				await engine.add(createOrder("order-1", { items: [coffee, sandwich] }));
+
+				const { exceeded, rules } = await engine.checkOrder(createOrder("order-2", { items: [sandwich] }));
+
+				expect(exceeded).to.equal(true);
+				expect(rules[0].totals.orders).to.equal(4);
+			});
+
+			it("should reject a category that is both included and excluded", () => {
+				expect(
+					() =>
+						new Engine({
+							bucket: "store:location",
+							store,
+							rules: [{ ...rule, categoryIds: ["beverages"], excludeCategoryIds: ["beverages"] }],
+						}),
+				).to.throw('excludeCategoryIds must not contain categories from categoryIds, got: "beverages"');
+			});
+		});
+
+		describe("load model", () => {
+			const item = (itemId: string, categoryId: string, quantity = 1) => ({
+				itemId,
+				quantity,
+				totalAmountCents: 1000,
+				categoryId,
+			});
+
+			beforeEach(() => {
+				engine = new Engine({
+					bucket: "store:location",
+					store,
+					rules: [
+						{
+							ruleId: "rule-load",
+							timeFrameMinutes: 30,
+							busyTimeMinutes: 15,
+							categoryIds: [],
+							weekDays: [],
+							maxLoad: 10,
+						},
+					],
+					loadModel: { categoryWeights: { pizzas: 4, drinks: 0.5 }, itemWeights: { platter: 6 } },
+				});
+			});
+
+			it("should throttle on the weighted prep load of the items", async () => {
+				await engine.add(
+					createOrder("order-1", { items: [item("margherita", "pizzas", 2), item("cola", "drinks", 2)] }),
+				);
+				expect(await engine.getBusyTimes()).to.have.length(0);
+
+				await engine.add(createOrder("order-2", { items: [item("pepperoni", "pizzas")] }));
+
+				const busyTimes = await engine.getBusyTimes();
+
+				expect(busyTimes).to.have.length(1);
+				expect(busyTimes[0].threshold).to.include({ type: "load", value: 13, limit: 10 });
+				expect(busyTimes[0].busyTimeContext.totalLoad).to.equal(13);
+			});
+
+			it("should prefer item weights over category weights", async () => {
+				const { rules } = await engine.checkOrder(createOrder("order-1", { items: [item("platter", "pizzas", 2)] }));
+
+				expect(rules[0].totals.load).to.equal(12);
+				expect(rules[0].threshold).to.include({ type: "load", value: 12 });
+			});
+
+			it("should reject negative weights", () => {
+				expect(
+					() => new Engine({ bucket: "store:location", store, loadModel: { categoryWeights: { pizzas: -1 } } }),
+				).to.throw("loadModel.categoryWeights must only contain non-negative numbers");
+			});
+		});
+
+		describe("prep durations", () => {
+			const pizza = { itemId: "margherita", quantity: 1, totalAmountCents: 1200, categoryId: "pizzas" };
+			const minutes = (count: number) => new Date(Math.floor(Date.now() / 1000) * 1000 + count * 60 * 1000);
+
+			beforeEach(() => {
+				engine = new Engine({
+					bucket: "store:location",
+					store,
+					rules: [
+						{
+							ruleId: "rule-kitchen",
+							timeFrameMinutes: 30,
+							busyTimeMinutes: 15,
+							categoryIds: [],
+							weekDays: [],
+							maxConcurrentLoad: 3,
+						},
+					],
+					loadModel: { categoryPrepMinutes: { pizzas: 20 } },
+				});
+			});
+
+			it("should throttle on the peak load of overlapping prep", async () => {
+				await engine.add(createOrder("order-1", { items: [{ ...pizza, quantity: 2 }] }));
+				expect(await engine.getBusyTimes()).to.have.length(0);
+
+				await engine.add(createOrder("order-2", { items: [pizza] }));
+
+				const busyTimes = await engine.getBusyTimes();
+
+				expect(busyTimes).to.have.length(1);
+				expect(busyTimes[0].threshold).to.include({ type: "concurrent_load", value: 3, limit: 3 });
+			});
+
+			it("should count prep of orders placed before the window", async () => {
+				await engine.add(createOrder("order-1", { items: [{ ...pizza, quantity: 2 }] }));
+
+				const { exceeded, rules } = await engine.checkOrder(
+					createOrder("order-2", { items: [pizza], fulfillAt: minutes(40) }),
+				);
+
+				expect(exceeded).to.equal(false);
+				expect(rules[0].totals.orders).to.equal(1);
+				expect(rules[0].totals.concurrentLoad).to.equal(2);
+			});
+
+			it("should reject negative prep durations", () => {
+				expect(() => new Engine({ bucket: "store:location", store, loadModel: { defaultPrepMinutes: -5 } })).to.throw(
+					"loadModel.defaultPrepMinutes must be a non-negative number (in minutes)",
+				);
+			});
+		});
+
+		describe("resources", () => {
+			const burger = { itemId: "cheeseburger", quantity: 1, totalAmountCents: 1100, categoryId: "burgers" };
+			const drink = { itemId: "lemonade", quantity: 1, totalAmountCents: 400, categoryId: "drinks" };
+			const resources = { grill: ["burgers"], bar: ["drinks"] };
+
+			beforeEach(() => {
+				engine = new Engine({
+					bucket: "store:location",
+					store,
+					resources,
+					rules: [{ ...rule, ruleId: "rule-grill", resource: "grill" }],
+				});
+			});
+
+			it("should count only the items of the targeted resource", async () => {
+				await engine.add(createOrder("order-1", { items: [drink] }));
+				await engine.add(createOrder("order-2", { items: [drink] }));
+				expect(await engine.getBusyTimes()).to.have.length(0);
+
+				const { rules } = await engine.checkOrder(createOrder("order-3", { items: [burger, drink] }));
+
+				expect(rules[0].totals).to.include({ orders: 1, items: 1, amountCents: 1100 });
+			});
+
+			it("should answer validateOrderTime for the stations a cart touches", async () => {
+				const orderTime = new Date(Math.floor(Date.now() / 1000) * 1000);
+
+				await engine.add(createOrder("order-1", { orderTime, items: [burger] }));
+				await engine.add(createOrder("order-2", { orderTime, items: [burger] }));
+
+				const busyTimes = await engine.getBusyTimes();
+
+				expect(busyTimes).to.have.length(1);
+				expect(busyTimes[0].resource).to.equal("grill");
+
+				const barValidation = await engine.validateOrderTime(orderTime, [drink]);
+
+				expect(barValidation.waitPeriodSeconds).to.equal(0);
+				expect(barValidation.busyTimes).to.have.length(0);
+				expect(barValidation.rules).to.have.length(0);
+
+				const grillValidation = await engine.validateOrderTime(orderTime, [drink, burger]);
+
+				expect(grillValidation.waitPeriodSeconds).to.be.greaterThan(0);
+				expect(grillValidation.busyTimes).to.have.length(1);
+				expect(grillValidation.rules[0].ruleId).to.equal("rule-grill");
+			});
+
+			it("should apply busy times without a resource to every cart", async () => {
+				const startTime = new Date(Math.floor(Date.now() / 1000) * 1000);
+
+				await engine.addManualBusyTime({
+					startTime,
+					endTime: new Date(startTime.getTime() + 10 * 60 * 1000),
+					reason: "Pause",
+					createdBy: "manager-1",
+				});
+				await engine.addManualBusyTime({
+					startTime,
+					endTime: new Date(startTime.getTime() + 20 * 60 * 1000),
+					reason: "Grill down",
+					createdBy: "manager-1",
+					resource: "grill",
+				});
+
+				const validation = await engine.validateOrderTime(startTime, [drink]);
+
+				expect(validation.waitPeriodSeconds).to.equal(10 * 60 + 1);
+				expect(validation.busyTimes).to.have.length(1);
+				expect(validation.busyTimes[0].resource).to.equal(null);
+			});
+
+			it("should reject a rule targeting an unknown resource", () => {
+				expect(
+					() =>
+						new Engine({
+							bucket: "store:location",
+							store,
+							resources,
+							rules: [{ ...rule, resource: "bakery" }],
+						}),
+				).to.throw("Rule rule-1 targets unknown resource bakery");
+			});
+
+			it("should reject a category mapped to several resources", () => {
+				expect(
+					() => new Engine({ bucket: "store:location", store, resources: { grill: ["burgers"], fryer: ["burgers"] } }),
+				).to.throw("Category burgers is mapped to both resources grill and fryer");
+			});
+		});
+
+		describe("forecast", () => {
+			const minutes = (count: number) => count * 60 * 1000;
+			const ordersRetentionSeconds = 14 * 24 * 3600;
+
+			beforeEach(async () => {
+				const history = new Engine({ bucket: "store:location", store, ordersRetentionSeconds });
+				const lastWeek = Date.now() - minutes(7 * 24 * 60) + minutes(10);
+
+				for (const orderId of ["history-1", "history-2", "history-3"]) {
+					await history.add(createOrder(orderId, { orderTime: new Date(lastWeek) }));
+				}
+
+				engine = new Engine({
+					bucket: "store:location",
+					store,
+					ordersRetentionSeconds,
+					rules: [{ ...rule, maxOrders: 3, forecastMinutes: 30 }],
+					forecast: { slotMinutes: 15, smoothing: 1 },
+				});
+			});
+
+			it("should predict the demand of the same weekday and time slot", async () => {
+				const slots = await engine.getForecast(new Date(), new Date(Date.now() + minutes(30)));
+				const expectedOrders = slots.reduce((sum, slot) => sum + slot.expectedOrders, 0);
+
+				expect(slots).to.have.length(2);
+				expect(expectedOrders).to.equal(3);
+			});
+
+			it("should apply a busy time ahead of the predicted rush", async () => {
+				await engine.add(createOrder("order-1"));
+
+				const busyTimes = await engine.getBusyTimes();
+
+				expect(busyTimes).to.have.length(1);
+				expect(busyTimes[0].threshold).to.include({ type: "orders", value: 3, limit: 3 });
+				expect(busyTimes[0].busyTimeContext).to.include({ totalOrders: 1, expectedOrders: 3 });
+			});
+
+			it("should only expect the orders the rule counts", async () => {
+				engine = new Engine({
+					bucket: "store:location",
+					store,
+					ordersRetentionSeconds,
+					rules: [{ ...rule, maxOrders: 3, forecastMinutes: 30, categoryIds: ["cat-2"] }],
+					forecast: { slotMinutes: 15, smoothing: 1 },
+				});
+
+				await engine.add(
+					createOrder("order-1", {
+						items: [{ itemId: "item-2", quantity: 1, totalAmountCents: 1000, categoryId: "cat-2" }],
+					}),
+				);
+
+				expect(await engine.getBusyTimes()).to.have.length(0);
+			});
+
+			it("should not add the expected orders to the actual ones", async () => {
+				engine = new Engine({
+					bucket: "store:location",
+					store,
+					ordersRetentionSeconds,
+					rules: [{ ...rule, maxOrders: 4, forecastMinutes: 30 }],
+					forecast: { slotMinutes: 15, smoothing: 1 },
+				});
+
+				await engine.add(createOrder("order-1"));
+				await engine.add(createOrder("order-2"));
+
+				expect(await engine.getBusyTimes()).to.have.length(0);
+			});
+
+			it("should reuse the profile built by another engine", async () => {
+				const from = new Date();
+				const to = new Date(Date.now() + minutes(30));
+				const slots = await engine.getForecast(from, to);
+
+				let ordersReads = 0;
+				const getOrders = store.getOrders.bind(store);
+
+				store.getOrders = (...args) => {
+					ordersReads++;
+
+					return getOrders(...args);
+				};
+
+				const otherEngine = new Engine({
+					bucket: "store:location",
+					store,
+					ordersRetentionSeconds,
+					forecast: { slotMinutes: 15, smoothing: 1 },
+				});
+
+				expect(await otherEngine.getForecast(from, to)).to.deep.equal(slots);
+				expect(ordersReads).to.equal(0);
+			});
+
+			it("should reject invalid forecast options", () => {
+				expect(() => new Engine({ bucket: "store:location", store, forecast: { slotMinutes: 7 } })).to.throw(
+					"forecast.slotMinutes must be a positive integer that divides a day (in minutes)",
+				);
+			});
+		});
+
+		describe("events", () => {
+			let events: EngineEvent[];
+
+			beforeEach(() => {
+				events = [];
+
+				const record = (event: EngineEvent) => {
+					events.push(event);
+				};
+
+				engine = new Engine({
+					bucket: "store:location",
+					store,
+					rules: [{ ...rule, maxOrders: 4 }],
+					thresholdNearingRatio: 0.75,
+					hooks: {
+						onOrderAdded: record,
+						onBusyTimeCreated: record,
+						onBusyTimeRemoved: record,
+						onBusyTimeStarted: record,
+						onBusyTimeEnded: record,
+						onThresholdNearing: record,
+					},
+				});
+			});
+
+			it("should emit order added, threshold nearing and busy time created events", async () => {
+				for (const orderId of ["order-1", "order-2", "order-3", "order-4"]) {
+					await engine.add(createOrder(orderId));
+				}
+
+				expect(events.map((event) => event.type)).to.deep.equal([
+					EngineEventType.ORDER_ADDED,
+					EngineEventType.ORDER_ADDED,
+					EngineEventType.ORDER_ADDED,
+					EngineEventType.THRESHOLD_NEARING,
+					EngineEventType.ORDER_ADDED,
+					EngineEventType.BUSY_TIME_CREATED,
+				]);
+				expect(events[3]).to.deep.include({ ruleId: "rule-1", orderId: "order-3" });
+				expect(events[3]).to.have.nested.include({ "threshold.value": 3, "threshold.limit": 4 });
+			});
+
+			it("should emit a busy time removed event when a busy time is removed", async () => {
+				const busyTime = await engine.addManualBusyTime({
+					endTime: new Date(Date.now() + 20 * 60 * 1000),
+					reason: "Pause",
+					createdBy: "manager-1",
+				});
+
+				await engine.removeBusyTime(busyTime.busyTimeId);
+
+				expect(events.map((event) => event.type)).to.deep.equal([
+					EngineEventType.BUSY_TIME_CREATED,
+					EngineEventType.BUSY_TIME_REMOVED,
+				]);
+			});
+
+			it("should emit busy time started and ended events when ticked past their times", async () => {
+				const now = Date.now();
+				const realNow = Date.now;
+
+				const busyTime = await engine.addManualBusyTime({
+					startTime: new Date(now + 5 * 60 * 1000),
+					endTime: new Date(now + 20 * 60 * 1000),
+					reason: "Pause",
+					createdBy: "manager-1",
+				});
+
+				try {
+					Date.now = () => now + 10 * 60 * 1000;
+					await engine.tick();
+
+					Date.now = () => now + 30 * 60 * 1000;
+					await engine.tick();
+					await engine.tick();
+				} finally {
+					Date.now = realNow;
+				}
+
+				expect(events.map((event) => event.type)).to.deep.equal([
+					EngineEventType.BUSY_TIME_CREATED,
+					EngineEventType.BUSY_TIME_STARTED,
+					EngineEventType.BUSY_TIME_ENDED,
+				]);
+				expect(events[1]).to.have.nested.include({ "busyTime.busyTimeId": busyTime.busyTimeId });
+			});
+
+			it("should not fail when a hook throws", async () => {
+				engine = new Engine({
+					bucket: "store:location",
+					store,
+					rules: [rule],
+					hooks: {
+						onOrderAdded: () => {
+							throw new Error("Hook failed");
+						},
+					},
+				});
+
+				await engine.add(createOrder("order-1"));
+
+				expect(await engine.getOrders()).to.have.length(1);
+			});
+		});
+
+		describe("busyTimeStrategy", () => {
+			const rules: Rule[] = [
+				{ ...rule, ruleId: "rule-short", busyTimeMinutes: 15, priority: 1 },
+				{ ...rule, ruleId: "rule-long", busyTimeMinutes: 30, priority: 2 },
+			];
+
+			async function addOrders(
+				busyTimeStrategy: BusyTimeStrategy,
+				engineRules = rules,
+				orderCount = 2,
+			): Promise<BusyTime[]> {
+				engine = new Engine({ bucket: "store:location", store, rules: engineRules, busyTimeStrategy });
+
+				for (let index = 1; index <= orderCount; index++) {
+					await engine.add(createOrder(`order-${index}`));
+				}
+
+				return engine.getBusyTimes();
+			}
+
+			it("should keep every busy time by default", async () => {
+				const busyTimes = await addOrders(BusyTimeStrategy.ALL);
+
+				expect(busyTimes.map((busyTime) => busyTime.ruleId)).to.have.members(["rule-short", "rule-long"]);
+			});
+
+			it("should keep only the longest busy time", async () => {
+				const busyTimes = await addOrders(BusyTimeStrategy.MAX);
+
+				expect(busyTimes.map((busyTime) => busyTime.ruleId)).to.deep.equal(["rule-long"]);
+			});
+
+			it("should keep only the highest priority busy time", async () => {
+				const busyTimes = await addOrders(BusyTimeStrategy.FIRST_MATCH, [{ ...rules[0], priority: 3 }, rules[1]]);
+
+				expect(busyTimes.map((busyTime) => busyTime.ruleId)).to.deep.equal(["rule-short"]);
+			});
+
+			it("should stack busy times in priority order", async () => {
+				const busyTimes = await addOrders(BusyTimeStrategy.SUM);
+
+				expect(busyTimes.map((busyTime) => busyTime.ruleId)).to.deep.equal(["rule-long", "rule-short"]);
+				expect(busyTimes[1].startTime.getTime()).to.equal(busyTimes[0].endTime.getTime());
+
+				const { waitPeriodSeconds } = await engine.validateOrderTime(busyTimes[0].startTime);
+
+				expect(waitPeriodSeconds).to.equal(45 * 60 + 1);
+			});
+
+			it("should not add busy times covered by those of earlier orders", async () => {
+				const busyTimes = await addOrders(BusyTimeStrategy.MAX, rules, 4);
+
+				expect(busyTimes.map((busyTime) => busyTime.orderId)).to.deep.equal(["order-2"]);
+			});
+
+			it("should extend the busy time of earlier orders", async () => {
+				engine = new Engine({ bucket: "store:location", store, rules: [rule], busyTimeStrategy: BusyTimeStrategy.MAX });
+
+				const orderTime = new Date(Math.floor(Date.now() / 1000) * 1000);
+
+				await engine.add(createOrder("order-1", { orderTime }));
+				await engine.add(createOrder("order-2", { orderTime }));
+				await engine.add(createOrder("order-3", { orderTime: new Date(orderTime.getTime() + 10 * 60 * 1000) }));
+
+				const busyTimes = await engine.getBusyTimes();
+
+				expect(busyTimes).to.have.length(1);
+				expect(busyTimes[0].orderId).to.equal("order-3");
+				expect(busyTimes[0].startTime.getTime()).to.equal(orderTime.getTime());
+				expect(busyTimes[0].endTime.getTime()).to.equal(orderTime.getTime() + 25 * 60 * 1000);
+			});
+
+			it("should merge busy times of concurrent orders", async () => {
+				engine = new Engine({ bucket: "store:location", store, rules, busyTimeStrategy: BusyTimeStrategy.MAX });
+
+				await Promise.all(
+					["order-1", "order-2", "order-3", "order-4"].map((orderId) => engine.add(createOrder(orderId))),
+				);
+
+				expect(await engine.getBusyTimes()).to.have.length(1);
+			});
+
+			it("should not add busy times overlapping those of earlier orders", async () => {
+				const busyTimes = await addOrders(BusyTimeStrategy.FIRST_MATCH, rules, 4);
+
+				expect(busyTimes.map((busyTime) => busyTime.orderId)).to.deep.equal(["order-2"]);
+			});
+
+			it("should stack busy times after those of earlier orders", async () => {
+				const busyTimes = await addOrders(BusyTimeStrategy.SUM, [rule], 3);
+
+				expect(busyTimes.map((busyTime) => busyTime.orderId)).to.deep.equal(["order-2", "order-3"]);
+				expect(busyTimes[1].startTime.getTime()).to.equal(busyTimes[0].endTime.getTime());
+			});
+		});
+	});
+}
+
+describe("RedisPublisher", () => {
+	beforeEach(async () => {
+		await redis.flushall();
+	});
+
+	it("should append engine events to the bucket stream", async () => {
+		const engine = new Engine({
+			bucket: "store:location",
+			redis,
+			rules: [rule],
+			publisher: new RedisPublisher(redis, { mode: RedisPublisherMode.STREAM }),
+		});
+
+		await engine.add(createOrder("order-1"));
+
+		const entries = await redis.xrange("events:store:location", "-", "+");
+
+		expect(entries).to.have.length(1);
+
+		const [, fields] = entries[0];
+		const event = JSON.parse(fields[fields.indexOf("event") + 1]);
+
+		expect(fields[fields.indexOf("type") + 1]).to.equal(EngineEventType.ORDER_ADDED);
+		expect(event.order.orderId).to.equal("order-1");
+	});
+
+	it("should expire the bucket stream after the stream retention", async () => {
+		const engine = new Engine({
+			bucket: "store:location",
+			redis,
+			rules: [rule],
+			publisher: new RedisPublisher(redis, { mode: RedisPublisherMode.STREAM, streamRetentionSeconds: 3600 }),
+		});
+
+		await engine.add(createOrder("order-1"));
+
+		expect(await redis.ttl("events:store:location")).to.equal(3600);
+	});
+});
+
+describe("Engine retention", () => {
+	beforeEach(async () => {
+		await redis.flushall();
+	});
+
+	it("should set the retention as TTL on the Redis keys", async () => {
+		const engine = new Engine({
+			bucket: "store:location",
+			redis,
+			rules: [rule],
+			ordersRetentionSeconds: 3600,
+			busyTimesRetentionSeconds: 1800,
+		});
+
+		await engine.add(createOrder("order-1"));
+		await engine.add(createOrder("order-2"));
+
+		expect(await redis.ttl("orders:store:location")).to.equal(3600);
+		expect(await redis.ttl("orderids:store:location")).to.equal(3600);
+		expect(await redis.ttl("busytimes:store:location")).to.equal(1800);
+		expect(await redis.ttl("busytimesrevision:store:location")).to.equal(1800);
+	});
+
+	it("should keep busy times until the retention has passed after they end", async () => {
+		const engine = new Engine({
+			bucket: "store:location",
+			redis,
+			rules: [rule],
+			busyTimesRetentionSeconds: 1800,
+		});
+
+		await engine.addManualBusyTime({
+			endTime: new Date(Date.now() + 3 * 3600 * 1000),
+			reason: "Closed for an event",
+			createdBy: "manager-1",
+		});
+
+		const ttl = await redis.ttl("busytimes:store:location");
+
+		expect(ttl).to.be.within(3 * 3600 + 1799, 3 * 3600 + 1800);
+
+		await engine.add(createOrder("order-1"));
+		await engine.add(createOrder("order-2"));
+
+		expect(await redis.ttl("busytimes:store:location")).to.be.at.least(ttl - 1);
+		expect(await redis.ttl("busytimesrevision:store:location")).to.be.at.least(ttl - 1);
+	});
+
+	it("should drop orders older than the configured retention", async () => {
+		const engine = new Engine({ bucket: "store:location", store: new MemoryStore(), ordersRetentionSeconds: 3600 });
+
+		await engine.add(createOrder("order-1", { orderTime: new Date(Date.now() - 2 * 3600 * 1000) }));
+		await engine.add(createOrder("order-2"));
+
+		const orders = await engine.getOrders();
+
+		expect(orders.map((order) => order.orderId)).to.deep.equal(["order-2"]);
+	});
+
+	it("should reject a non-positive retention", () => {
+		expect(() => new Engine({ bucket: "store:location", redis, ordersRetentionSeconds: 0 })).to.throw(
+			"ordersRetentionSeconds must be a positive integer (in seconds)",
+		);
+	});
+});
+
+describe("RedisStore legacy orders", () => {
+	const bucket = "store:location";
+
+	beforeEach(async () => {
+		await redis.flushall();
+
+		// Orders written before the order id index existed are only stored in the orders set
+		const legacyEngine = new Engine({ bucket, store: new MemoryStore(), rules: [rule] });
+
+		await legacyEngine.add(createOrder("order-1"));
+
+		const [order] = await legacyEngine.getOrders();
+
+		await redis.zadd(`orders:${bucket}`, order.orderTimeSeconds, encodeOrder(order));
+	});
+
+	it("should remove an order without an order id entry", async () => {
+		const engine = new Engine({ bucket, store: new RedisStore(redis), rules: [rule] });
+
+		expect(await engine.removeOrder("order-1")).to.equal(true);
+		expect(await engine.getOrders()).to.have.length(0);
+	});
+
+	it("should not add an order twice when the first copy has no order id entry", async () => {
+		const engine = new Engine({ bucket, store: new RedisStore(redis), rules: [rule] });
+
+		await engine.add(createOrder("order-1"));
+
+		expect(await engine.getOrders()).to.have.length(1);
+	});
+});
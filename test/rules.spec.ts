@@ -0,0 +1,195 @@
+import Ajv2020 from "ajv/dist/2020";
+import addFormats from "ajv-formats";
+import { expect } from "chai";
+import { describe, it } from "mocha";
+import { OrderCountMode, OrderSource } from "../src/engine/types";
+import { defaultRuleSet, RuleValidationError, RuleValidationErrorCode } from "../src/rules";
+import type { Rule } from "../src/rules/types";
+
+const rule: Rule = {
+	ruleId: "rule-1",
+	timeFrameMinutes: 30,
+	busyTimeMinutes: 15,
+	categoryIds: [],
+	weekDays: [],
+	maxOrders: 2,
+};
+
+describe("defaultRuleSet", () => {
+	describe("validate", () => {
+		it("should throw a RuleValidationError describing the failing field", () => {
+			try {
+				defaultRuleSet.validate({ ...rule, maxOrders: 0 });
+				expect.fail("Expected validate to throw");
+			} catch (error) {
+				expect(error).to.be.instanceOf(RuleValidationError);
+				expect(error).to.include({
+					ruleId: "rule-1",
+					field: "maxOrders",
+					code: RuleValidationErrorCode.INVALID_VALUE,
+					message: "maxOrders must be a positive number greater than 0",
+				});
+			}
+		});
+	});
+
+	describe("validateAll", () => {
+		it("should return no errors for valid rules", () => {
+			expect(defaultRuleSet.validateAll([rule, { ...rule, ruleId: "rule-2" }])).to.deep.equal([]);
+		});
+
+		it("should collect every problem across rules", () => {
+			const errors = defaultRuleSet.validateAll([
+				{ ...rule, timeFrameMinutes: 0, startTime: "9am" },
+				{ ...rule, ruleId: "rule-2", weekDays: [7] },
+				null as unknown as Rule,
+			]);
+
+			expect(errors.map(({ ruleId, field, code }) => ({ ruleId, field, code }))).to.deep.equal([
+				{ ruleId: "rule-1", field: "timeFrameMinutes", code: RuleValidationErrorCode.INVALID_VALUE },
+				{ ruleId: "rule-1", field: "startTime", code: RuleValidationErrorCode.INVALID_FORMAT },
+				{ ruleId: "rule-2", field: "weekDays", code: RuleValidationErrorCode.INVALID_VALUE },
+				{ ruleId: null, field: null, code: RuleValidationErrorCode.REQUIRED },
+			]);
+		});
+
+		it("should report duplicate ruleIds", () => {
+			const errors = defaultRuleSet.validateAll([rule, { ...rule, maxOrders: 5 }]);
+
+			expect(errors).to.have.length(1);
+			expect(errors[0]).to.include({ ruleId: "rule-1", field: "ruleId", code: RuleValidationErrorCode.DUPLICATE });
+		});
+	});
+
+	describe("toJsonSchema", () => {
+		const fullRule: Rule = {
+			...rule,
+			excludeCategoryIds: ["beverages"],
+			orderCountMode: OrderCountMode.MATCHING_ITEMS,
+			timeSegments: [{ startTime: "11:00", endTime: "14:00" }],
+			effectiveFrom: "2024-01-01",
+			effectiveTo: "2024-12-31",
+			blackoutDates: [{ from: "2024-11-28", to: "2024-11-28" }],
+			maxItems: 10,
+			maxAmountCents: 10000,
+			maxLoad: 20,
+			sources: [OrderSource.PERDIEM],
+			throttleSources: [OrderSource.PERDIEM],
+			sourceWeights: { [OrderSource.DOORDASH]: 1.5 },
+			priority: 1,
+			tiers: [{ maxOrders: 4, busyTimeMinutes: 30 }],
+			forecastMinutes: 30,
+		};
+
+		it("should describe every rule field", () => {
+			const schema = defaultRuleSet.toJsonSchema();
+			const properties = schema.properties as Record<string, unknown>;
+
+			expect(Object.keys(properties)).to.include.members([...Object.keys(fullRule), "startTime", "endTime"]);
+			expect(schema.required).to.have.members([
+				"ruleId",
+				"timeFrameMinutes",
+				"busyTimeMinutes",
+				"categoryIds",
+				"weekDays",
+			]);
+			expect(properties.orderCountMode).to.deep.equal({ type: "string", enum: ["order", "matching_items"] });
+		});
+
+		it("should round-trip rules through JSON", () => {
+			const json = defaultRuleSet.exportRules([fullRule]);
+
+			expect(defaultRuleSet.importRules(json)).to.deep.equal([fullRule]);
+		});
+
+		it("should reject invalid imported rules", () => {
+			expect(() => defaultRuleSet.importRules(JSON.stringify([{ ...rule, busyTimeMinutes: 5 }]))).to.throw(
+				RuleValidationError,
+				"busyTimeMinutes must be a number >= 15 (in minutes)",
+			);
+			expect(() => defaultRuleSet.importRules("{}")).to.throw(RuleValidationError, "Rules JSON must be an array");
+		});
+
+		describe("agreement with validateAll", () => {
+			const ajv = new Ajv2020({ allErrors: true });
+
+			addFormats(ajv);
+
+			const validateSchema = ajv.compile(defaultRuleSet.toJsonSchema());
+			const { maxOrders: _, ...ruleWithoutThreshold } = rule;
+
+			const invalidRules: Record<string, unknown> = {
+				"non-positive maxOrders": { ...rule, maxOrders: 0 },
+				"non-numeric maxItems": { ...rule, maxItems: "10" },
+				"negative maxAmountCents": { ...rule, maxAmountCents: -1 },
+				"non-positive maxLoad": { ...rule, maxLoad: 0 },
+				"non-positive maxConcurrentLoad": { ...rule, maxConcurrentLoad: 0 },
+				"missing threshold": ruleWithoutThreshold,
+				"blank ruleId": { ...rule, ruleId: " " },
+				"short busyTimeMinutes": { ...rule, busyTimeMinutes: 10 },
+				"non-positive timeFrameMinutes": { ...rule, timeFrameMinutes: 0 },
+				"non-string categoryIds": { ...rule, categoryIds: [1] },
+				"non-string excludeCategoryIds": { ...rule, excludeCategoryIds: [null] },
+				"unknown orderCountMode": { ...rule, orderCountMode: "weight" },
+				"blank resource": { ...rule, resource: "" },
+				"out of range weekDays": { ...rule, weekDays: [7] },
+				"single digit startTime": { ...rule, startTime: "9:30" },
+				"out of range endTime": { ...rule, endTime: "24:00" },
+				"empty timeSegments": { ...rule, timeSegments: [] },
+				"timeSegments with startTime": { ...rule, startTime: "09:00", timeSegments: fullRule.timeSegments },
+				"impossible effectiveFrom": { ...rule, effectiveFrom: "2024-02-30" },
+				"malformed blackoutDates": { ...rule, blackoutDates: [{ from: "2024/11/28", to: "2024-11-28" }] },
+				"empty sources": { ...rule, sources: [] },
+				"unknown throttleSources": { ...rule, throttleSources: ["fax"] },
+				"negative sourceWeights": { ...rule, sourceWeights: { [OrderSource.DOORDASH]: -1 } },
+				"fractional priority": { ...rule, priority: 1.5 },
+				"tier at the minimum busyTimeMinutes": { ...rule, tiers: [{ maxOrders: 4, busyTimeMinutes: 15 }] },
+				"tier without threshold": { ...rule, tiers: [{ busyTimeMinutes: 30 }] },
+				"non-positive forecastMinutes": { ...rule, forecastMinutes: 0 },
+			};
+
+			// Checks that compare fields with each other cannot be expressed in JSON Schema
+			const crossFieldRules: Record<string, unknown> = {
+				"equal startTime and endTime": { ...rule, startTime: "09:00", endTime: "09:00:00" },
+				"equal timeSegments bounds": { ...rule, timeSegments: [{ startTime: "11:00", endTime: "11:00" }] },
+				"inverted effective dates": { ...rule, effectiveFrom: "2024-12-31", effectiveTo: "2024-01-01" },
+				"overlapping blackoutDates": {
+					...rule,
+					blackoutDates: [
+						{ from: "2024-11-01", to: "2024-11-10" },
+						{ from: "2024-11-05", to: "2024-11-15" },
+					],
+				},
+				"excluded categoryIds that are included": { ...rule, categoryIds: ["food"], excludeCategoryIds: ["food"] },
+				"decreasing tiers": {
+					...rule,
+					tiers: [
+						{ maxOrders: 4, busyTimeMinutes: 30 },
+						{ maxOrders: 6, busyTimeMinutes: 20 },
+					],
+				},
+			};
+
+			it("should accept the valid rules", () => {
+				for (const validRule of [rule, fullRule, { ...rule, startTime: "09:30", endTime: "23:45:00" }]) {
+					expect(validateSchema(validRule), JSON.stringify(validateSchema.errors)).to.equal(true);
+					expect(defaultRuleSet.validateAll([validRule])).to.deep.equal([]);
+				}
+			});
+
+			for (const [name, invalidRule] of Object.entries(invalidRules)) {
+				it(`should reject a rule with ${name}`, () => {
+					expect(validateSchema(invalidRule)).to.equal(false);
+					expect(defaultRuleSet.validateAll([invalidRule as Rule])).to.not.deep.equal([]);
+				});
+			}
+
+			for (const [name, crossFieldRule] of Object.entries(crossFieldRules)) {
+				it(`should leave a rule with ${name} to the validators`, () => {
+					expect(validateSchema(crossFieldRule)).to.equal(true);
+					expect(defaultRuleSet.validateAll([crossFieldRule as Rule])).to.not.deep.equal([]);
+				});
+			}
+		});
+	});
+});